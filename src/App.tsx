@@ -3,9 +3,12 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
-import { AuthProvider, useAuth } from "@/contexts/AuthContext";
+import { AuthProvider, useAuth, roleHomePath } from "@/contexts/AuthContext";
 import { SkinProvider } from "@/contexts/SkinContext";
 import { GameProvider } from "@/contexts/GameContext";
+import { RequireRole } from "@/components/RequireRole";
+import { GameRoute } from "@/components/game/GameRoute";
+import { GamePhaseRouter } from "@/components/game/GamePhaseRouter";
 
 // Auth Screens
 import { SplashScreen } from "@/screens/auth/SplashScreen";
@@ -28,13 +31,6 @@ import { CreateGameScreen } from "@/screens/user/CreateGameScreen";
 
 // Game Screens
 import { JoinGameInput } from "@/screens/game/JoinGameInput";
-import { GameWaitingRoom } from "@/screens/game/GameWaitingRoom";
-import { TopicSelection } from "@/screens/game/TopicSelection";
-import { VIPRanking } from "@/screens/game/VIPRanking";
-import { PlayerGuessing } from "@/screens/game/PlayerGuessing";
-import { RevealAnimation } from "@/screens/game/RevealAnimation";
-import { RoundScoreboard } from "@/screens/game/RoundScoreboard";
-import { GameOverScreen } from "@/screens/game/GameOverScreen";
 import { GameSettings } from "@/screens/game/GameSettings";
 import { InvitePlayers } from "@/screens/game/InvitePlayers";
 import { InGameChat } from "@/screens/game/InGameChat";
@@ -54,39 +50,33 @@ const AppRoutes = () => {
     <Routes>
       {/* Auth Routes */}
       <Route path="/splash" element={<SplashScreen />} />
-      <Route path="/login" element={!user ? <LoginScreen /> : <Navigate to={user.isEntity ? "/entity/dashboard" : "/user/home"} />} />
-      <Route path="/signup" element={!user ? <SignupScreen /> : <Navigate to={user.isEntity ? "/entity/dashboard" : "/user/home"} />} />
+      <Route path="/login" element={!user ? <LoginScreen /> : <Navigate to={roleHomePath[user.role]} />} />
+      <Route path="/signup" element={!user ? <SignupScreen /> : <Navigate to={roleHomePath[user.role]} />} />
 
       {/* Entity Routes */}
-      <Route path="/entity/dashboard" element={user?.isEntity ? <EntityDashboard /> : <Navigate to="/login" />} />
-      <Route path="/entity/topics" element={user?.isEntity ? <TopicList /> : <Navigate to="/login" />} />
-      <Route path="/entity/topics/new" element={user?.isEntity ? <TopicForm /> : <Navigate to="/login" />} />
-      <Route path="/entity/topics/:topicId" element={user?.isEntity ? <TopicForm /> : <Navigate to="/login" />} />
-      <Route path="/entity/skinning" element={user?.isEntity ? <SkinningScraping /> : <Navigate to="/login" />} />
-      <Route path="/entity/qr-code" element={user?.isEntity ? <EntityQRCode /> : <Navigate to="/login" />} />
-      <Route path="/entity/analytics" element={user?.isEntity ? <DataMiningDashboard /> : <Navigate to="/login" />} />
+      <Route path="/entity/dashboard" element={<RequireRole role="entity"><EntityDashboard /></RequireRole>} />
+      <Route path="/entity/topics" element={<RequireRole role="entity"><TopicList /></RequireRole>} />
+      <Route path="/entity/topics/new" element={<RequireRole role="entity"><TopicForm /></RequireRole>} />
+      <Route path="/entity/topics/:topicId" element={<RequireRole role="entity"><TopicForm /></RequireRole>} />
+      <Route path="/entity/skinning" element={<RequireRole role="entity"><SkinningScraping /></RequireRole>} />
+      <Route path="/entity/qr-code" element={<RequireRole role="entity"><EntityQRCode /></RequireRole>} />
+      <Route path="/entity/analytics" element={<RequireRole role="entity"><DataMiningDashboard /></RequireRole>} />
 
       {/* User Routes */}
-      <Route path="/user/home" element={user && !user.isEntity ? <UserHome /> : <Navigate to="/login" />} />
-      <Route path="/entity-space/:entityId" element={user ? <EntitySpaceLanding /> : <Navigate to="/login" />} />
-      <Route path="/game-lobby/:entityId" element={user ? <GameLobby /> : <Navigate to="/login" />} />
-      <Route path="/create-game/:entityId" element={user ? <CreateGameScreen /> : <Navigate to="/login" />} />
-      <Route path="/join-game/:entityId" element={user ? <JoinGameInput /> : <Navigate to="/login" />} />
+      <Route path="/user/home" element={<RequireRole role="player"><UserHome /></RequireRole>} />
+      <Route path="/entity-space/:entityId" element={<RequireRole><EntitySpaceLanding /></RequireRole>} />
+      <Route path="/game-lobby/:entityId" element={<RequireRole><GameLobby /></RequireRole>} />
+      <Route path="/create-game/:entityId" element={<RequireRole><CreateGameScreen /></RequireRole>} />
+      <Route path="/join-game/:entityId" element={<RequireRole><JoinGameInput /></RequireRole>} />
 
       {/* Game Routes */}
-      <Route path="/game/waiting-room" element={user ? <GameWaitingRoom /> : <Navigate to="/login" />} />
-      <Route path="/game/topic-selection" element={user ? <TopicSelection /> : <Navigate to="/login" />} />
-      <Route path="/game/vip-ranking" element={user ? <VIPRanking /> : <Navigate to="/login" />} />
-      <Route path="/game/guessing" element={user ? <PlayerGuessing /> : <Navigate to="/login" />} />
-      <Route path="/game/reveal" element={user ? <RevealAnimation /> : <Navigate to="/login" />} />
-      <Route path="/game/scoreboard" element={user ? <RoundScoreboard /> : <Navigate to="/login" />} />
-      <Route path="/game/game-over" element={user ? <GameOverScreen /> : <Navigate to="/login" />} />
-      <Route path="/game/settings" element={user ? <GameSettings /> : <Navigate to="/login" />} />
-      <Route path="/game/invite" element={user ? <InvitePlayers /> : <Navigate to="/login" />} />
-      <Route path="/game/chat" element={user ? <InGameChat /> : <Navigate to="/login" />} />
+      <Route path="/game/:code" element={<RequireRole><GameRoute><GamePhaseRouter /></GameRoute></RequireRole>} />
+      <Route path="/game/:code/settings" element={<RequireRole><GameRoute><GameSettings /></GameRoute></RequireRole>} />
+      <Route path="/game/:code/invite" element={<RequireRole><GameRoute><InvitePlayers /></GameRoute></RequireRole>} />
+      <Route path="/game/:code/chat" element={<RequireRole><GameRoute><InGameChat /></GameRoute></RequireRole>} />
 
       {/* Root Redirect */}
-      <Route path="/" element={<Navigate to={user ? (user.isEntity ? "/entity/dashboard" : "/user/home") : "/login"} />} />
+      <Route path="/" element={<Navigate to={user ? roleHomePath[user.role] : "/login"} />} />
       
       {/* 404 */}
       <Route path="*" element={<NotFound />} />
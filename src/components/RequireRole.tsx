@@ -0,0 +1,25 @@
+import { ReactNode } from 'react';
+import { Navigate } from 'react-router-dom';
+import { useAuth, roleHomePath, type AccountRole } from '@/contexts/AuthContext';
+
+interface RequireRoleProps {
+  // Leave out to allow any signed-in account
+  role?: AccountRole;
+  children: ReactNode;
+}
+
+// Route guard: signed-out visitors go to login, signed-in accounts of the
+// wrong kind go back to their own home screen
+export const RequireRole = ({ role, children }: RequireRoleProps) => {
+  const { user } = useAuth();
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (role && user.role !== role) {
+    return <Navigate to={roleHomePath[user.role]} replace />;
+  }
+
+  return <>{children}</>;
+};
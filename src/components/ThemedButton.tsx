@@ -1,4 +1,6 @@
 import { Button, ButtonProps } from '@/components/ui/button';
+import { useActiveSkin } from '@/contexts/SkinContext';
+import { buttonRadiusClass } from '@/lib/skin';
 import { cn } from '@/lib/utils';
 
 interface ThemedButtonProps extends ButtonProps {
@@ -13,10 +15,13 @@ export const ThemedButton = ({
   children, 
   ...props 
 }: ThemedButtonProps) => {
+  const skin = useActiveSkin();
+
   return (
     <Button
       className={cn(
         'game-button font-semibold transition-all',
+        buttonRadiusClass[skin.shapes?.buttonStyle ?? 'rounded'],
         gradient && 'bg-gradient-to-r from-primary to-secondary text-primary-foreground',
         glow && 'glow-effect',
         className
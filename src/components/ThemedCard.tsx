@@ -1,4 +1,6 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useActiveSkin } from '@/contexts/SkinContext';
+import { cardRadiusClass } from '@/lib/skin';
 import { cn } from '@/lib/utils';
 
 interface ThemedCardProps {
@@ -16,8 +18,27 @@ export const ThemedCard = ({
   className,
   glow = false 
 }: ThemedCardProps) => {
+  const skin = useActiveSkin();
+  const watermark = skin.watermark && skin.logo;
+
   return (
-    <Card className={cn('game-card', glow && 'glow-effect', className)}>
+    <Card
+      className={cn(
+        'game-card',
+        cardRadiusClass[skin.shapes?.cardStyle ?? 'rounded'],
+        glow && 'glow-effect',
+        watermark && 'relative overflow-hidden',
+        className
+      )}
+    >
+      {watermark && (
+        <img
+          src={skin.logo}
+          alt=""
+          aria-hidden
+          className="absolute bottom-3 right-3 h-12 max-w-[6rem] object-contain opacity-10 pointer-events-none select-none"
+        />
+      )}
       {(title || description) && (
         <CardHeader>
           {title && <CardTitle className="gradient-text text-2xl">{title}</CardTitle>}
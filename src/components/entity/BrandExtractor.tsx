@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { ThemedButton } from '@/components/ThemedButton';
+import { ThemedCard } from '@/components/ThemedCard';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { BRAND_FILE_TYPES, extractBrand, isImageFile, type BrandProposal } from '@/lib/brandExtraction';
+
+interface BrandExtractorProps {
+  entityId: string;
+  // logoFile is set when the admin wants the analysed image as their logo
+  onApply: (proposal: BrandProposal, logoFile?: File) => void;
+  disabled?: boolean;
+}
+
+const Swatch = ({ color, label }: { color: string; label?: string }) => (
+  <div className="flex items-center gap-2">
+    <span className="w-6 h-6 rounded-md border border-border shrink-0" style={{ background: color }} />
+    <span className="text-sm font-mono">{label ?? color}</span>
+  </div>
+);
+
+// Proposes a skin from an uploaded logo or a saved copy of the entity's
+// website, for the admin to review before it reaches the editor
+export const BrandExtractor = ({ entityId, onApply, disabled = false }: BrandExtractorProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [proposal, setProposal] = useState<BrandProposal | null>(null);
+  const [extractError, setExtractError] = useState<string | null>(null);
+  const [useAsLogo, setUseAsLogo] = useState(true);
+
+  const handleFile = async (selected: File | undefined) => {
+    setProposal(null);
+    setExtractError(null);
+    setFile(selected ?? null);
+    if (!selected) return;
+
+    try {
+      setProposal(await extractBrand(entityId, selected));
+    } catch (error) {
+      console.error('Error extracting brand:', error);
+      setExtractError(error instanceof Error ? error.message : 'Could not read this file');
+    }
+  };
+
+  const { analysis, skin, foregrounds } = proposal ?? {};
+
+  return (
+    <ThemedCard
+      title="Scraping Method"
+      description="Upload a logo, or a website saved as HTML or CSS, to propose colors, fonts and shapes"
+    >
+      <div className="space-y-4">
+        <Input type="file" accept={BRAND_FILE_TYPES} onChange={(e) => handleFile(e.target.files?.[0])} />
+        {extractError && <p className="text-sm text-destructive">{extractError}</p>}
+
+        {analysis && skin && foregrounds && (
+          <div className="space-y-4">
+            <div>
+              <p className="text-sm font-semibold mb-2">Detected palette</p>
+              {analysis.palette.length > 0 ? (
+                <div className="flex flex-wrap gap-1">
+                  {analysis.palette.map((color) => (
+                    <span
+                      key={color.hex}
+                      title={`${color.hex} · ${Math.round(color.weight * 100)}%`}
+                      className="w-8 h-8 rounded-md border border-border"
+                      style={{ background: color.hex }}
+                    />
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No colors found</p>
+              )}
+            </div>
+
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <p className="text-sm font-semibold">Proposed colors</p>
+                <Swatch color={skin.primaryColor} label={`Primary ${skin.primaryColor}`} />
+                <Swatch color={skin.secondaryColor} label={`Secondary ${skin.secondaryColor}`} />
+                {skin.backgroundColor && <Swatch color={skin.backgroundColor} label={`Background ${skin.backgroundColor}`} />}
+              </div>
+              <div className="space-y-2">
+                <p className="text-sm font-semibold">Text contrast</p>
+                {foregrounds.map((check) => (
+                  <div
+                    key={check.color}
+                    className="px-2 py-1 rounded-md text-sm font-semibold"
+                    style={{ background: check.color, color: check.foreground }}
+                  >
+                    Aa {check.ratio.toFixed(1)}:1
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="text-sm text-muted-foreground space-y-1">
+              <p>Font: {skin.font ?? 'none detected'}</p>
+              <p>
+                Shapes:{' '}
+                {analysis.radii.length
+                  ? `${skin.shapes?.buttonStyle} buttons, ${skin.shapes?.cardStyle} cards`
+                  : 'no corner radii detected'}
+              </p>
+            </div>
+
+            {file && isImageFile(file) && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="brand-use-as-logo"
+                  checked={useAsLogo}
+                  onCheckedChange={(checked) => setUseAsLogo(checked === true)}
+                />
+                <Label htmlFor="brand-use-as-logo">Use this image as the logo</Label>
+              </div>
+            )}
+
+            <ThemedButton
+              gradient
+              disabled={disabled}
+              onClick={() => onApply(proposal!, file && isImageFile(file) && useAsLogo ? file : undefined)}
+            >
+              Apply to Editor
+            </ThemedButton>
+          </div>
+        )}
+      </div>
+    </ThemedCard>
+  );
+};
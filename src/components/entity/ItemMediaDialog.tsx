@@ -0,0 +1,259 @@
+import { useEffect, useRef, useState, type PointerEvent } from 'react';
+import { ThemedButton } from '@/components/ThemedButton';
+import { ItemThumbnail } from '@/components/game/ItemThumbnail';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { useTopicActions, type TopicItem } from '@/hooks/useTopics';
+import { useToast } from '@/hooks/use-toast';
+import {
+  MAX_ITEM_IMAGE_BYTES,
+  cropRect,
+  cropToSquare,
+  defaultCrop,
+  loadImage,
+  type SquareCrop,
+} from '@/lib/itemImages';
+import { ImagePlus, Trash2 } from 'lucide-react';
+
+const PREVIEW_SIZE = 192;
+
+interface ItemMediaDialogProps {
+  // The item being edited; the dialog is open while this is set
+  item: TopicItem | null;
+  entityId: string;
+  onClose: () => void;
+  onSave: (item: TopicItem) => void;
+}
+
+// Edits an item's emoji, description and image. A newly chosen image is
+// cropped to a square and uploaded when the dialog is saved.
+export const ItemMediaDialog = ({ item, entityId, onClose, onSave }: ItemMediaDialogProps) => {
+  const { uploadItemImage } = useTopicActions();
+  const { toast } = useToast();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [emoji, setEmoji] = useState('');
+  const [description, setDescription] = useState('');
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const [crop, setCrop] = useState<SquareCrop>(defaultCrop);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setEmoji(item?.emoji ?? '');
+    setDescription(item?.description ?? '');
+    setImageUrl(item?.image_url ?? null);
+    setSource(null);
+    setCrop(defaultCrop);
+  }, [item]);
+
+  // Redraw the crop preview whenever the framing changes
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context || !source) return;
+
+    const { sx, sy, side } = cropRect(source.naturalWidth, source.naturalHeight, crop);
+    context.clearRect(0, 0, PREVIEW_SIZE, PREVIEW_SIZE);
+    context.drawImage(source, sx, sy, side, side, 0, 0, PREVIEW_SIZE, PREVIEW_SIZE);
+  }, [source, crop]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    if (!file.type.startsWith('image/') || file.size > MAX_ITEM_IMAGE_BYTES) {
+      toast({
+        title: 'Unsupported Image',
+        description: 'Choose an image file of 5 MB or less',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const objectUrl = URL.createObjectURL(file);
+    try {
+      setSource(await loadImage(objectUrl));
+      setCrop(defaultCrop);
+    } catch (error) {
+      console.error('Error reading image:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not read that image',
+        variant: 'destructive',
+      });
+    } finally {
+      URL.revokeObjectURL(objectUrl);
+    }
+  };
+
+  // Dragging the preview pans the crop
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current || !source) return;
+
+    const { side } = cropRect(source.naturalWidth, source.naturalHeight, crop);
+    const scale = side / PREVIEW_SIZE;
+    const dx = ((e.clientX - dragRef.current.x) * scale) / source.naturalWidth;
+    const dy = ((e.clientY - dragRef.current.y) * scale) / source.naturalHeight;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+
+    setCrop((prev) => ({
+      ...prev,
+      x: Math.min(Math.max(prev.x - dx, 0), 1),
+      y: Math.min(Math.max(prev.y - dy, 0), 1),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!item) return;
+
+    setSaving(true);
+    try {
+      let image = imageUrl;
+      if (source) {
+        image = await uploadItemImage(entityId, await cropToSquare(source, crop));
+        if (!image) return;
+      }
+
+      onSave({
+        ...item,
+        emoji: emoji.trim() || null,
+        description: description.trim() || null,
+        image_url: image,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error saving item media:', error);
+      toast({
+        title: 'Error',
+        description: (error as { message?: string }).message || 'Failed to save image',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{item?.name}</DialogTitle>
+          <DialogDescription>Shown next to the item while ranking and on its reveal card</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-[6rem_1fr] gap-4">
+            <div>
+              <Label htmlFor="item-emoji">Emoji</Label>
+              <Input
+                id="item-emoji"
+                value={emoji}
+                maxLength={16}
+                onChange={(e) => setEmoji(e.target.value)}
+                placeholder="🍕"
+              />
+            </div>
+            <div>
+              <Label htmlFor="item-description">Description</Label>
+              <Textarea
+                id="item-description"
+                value={description}
+                maxLength={280}
+                rows={2}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label className="block mb-2">Image</Label>
+            {source ? (
+              <div className="flex flex-col items-center gap-3">
+                <canvas
+                  ref={canvasRef}
+                  width={PREVIEW_SIZE}
+                  height={PREVIEW_SIZE}
+                  className="rounded-lg border border-border cursor-move touch-none"
+                  onPointerDown={(e) => {
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    dragRef.current = { x: e.clientX, y: e.clientY };
+                  }}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={() => (dragRef.current = null)}
+                />
+                <div className="w-full">
+                  <Label className="text-xs text-muted-foreground">Zoom</Label>
+                  <Slider
+                    min={1}
+                    max={4}
+                    step={0.05}
+                    value={[crop.zoom]}
+                    onValueChange={([zoom]) => setCrop((prev) => ({ ...prev, zoom }))}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">Drag the image to frame it</p>
+              </div>
+            ) : (
+              <div className="flex items-center gap-3">
+                {imageUrl ? (
+                  <ItemThumbnail name={item?.name ?? ''} imageUrl={imageUrl} className="w-16 h-16" />
+                ) : (
+                  <p className="text-sm text-muted-foreground">No image</p>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2 mt-3">
+              <ThemedButton variant="outline" asChild>
+                <label className="cursor-pointer">
+                  <ImagePlus className="w-4 h-4 mr-2" />
+                  {imageUrl || source ? 'Replace' : 'Upload'}
+                  <input
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={(e) => {
+                      handleFile(e.target.files?.[0]);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              </ThemedButton>
+              {(imageUrl || source) && (
+                <ThemedButton
+                  variant="outline"
+                  onClick={() => {
+                    setImageUrl(null);
+                    setSource(null);
+                  }}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Remove
+                </ThemedButton>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <ThemedButton variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </ThemedButton>
+          <ThemedButton gradient onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Done'}
+          </ThemedButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
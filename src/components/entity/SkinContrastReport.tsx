@@ -0,0 +1,73 @@
+import { ThemedButton } from '@/components/ThemedButton';
+import { ThemedCard } from '@/components/ThemedCard';
+import type { ContrastCheck, SkinColorToken } from '@/lib/skinContrast';
+import { cn } from '@/lib/utils';
+import { CheckCircle2, XCircle } from 'lucide-react';
+
+const tokenNames: Record<SkinColorToken, string> = {
+  primaryColor: 'primary',
+  secondaryColor: 'secondary',
+  backgroundColor: 'background',
+};
+
+interface SkinContrastReportProps {
+  checks: ContrastCheck[];
+  onApplySuggestion: (token: SkinColorToken, color: string) => void;
+}
+
+export const SkinContrastReport = ({ checks, onApplySuggestion }: SkinContrastReportProps) => {
+  const failures = checks.filter((check) => !check.passes).length;
+
+  return (
+    <ThemedCard
+      title="Contrast"
+      description={
+        failures > 0
+          ? `${failures} pairing${failures === 1 ? '' : 's'} below WCAG AA. Fix them before publishing.`
+          : 'Every pairing meets WCAG AA'
+      }
+    >
+      <div className="space-y-2">
+        {checks.map((check) => (
+          <div
+            key={check.id}
+            className={cn(
+              'flex items-center gap-3 p-3 rounded-lg',
+              check.passes ? 'bg-muted' : 'bg-destructive/10 border border-destructive/40'
+            )}
+          >
+            <span
+              className="w-12 h-8 rounded-md border border-border flex items-center justify-center text-sm font-bold shrink-0"
+              style={{ background: check.background, color: check.foreground }}
+            >
+              Aa
+            </span>
+            <div className="flex-1 min-w-0">
+              <p className="font-semibold text-sm">{check.label}</p>
+              <p className="text-xs text-muted-foreground">
+                {check.usedBy} · {check.ratio.toFixed(2)}:1, needs {check.minimum}:1
+              </p>
+            </div>
+            {check.passes ? (
+              <CheckCircle2 className="w-5 h-5 text-green-500 shrink-0" />
+            ) : check.suggestion ? (
+              <ThemedButton
+                variant="outline"
+                size="sm"
+                onClick={() => onApplySuggestion(check.suggestion!.token, check.suggestion!.color)}
+              >
+                <span
+                  className="w-4 h-4 rounded-sm border border-border mr-2"
+                  style={{ background: check.suggestion.color }}
+                />
+                Use {check.suggestion.color} for {tokenNames[check.suggestion.token]}
+              </ThemedButton>
+            ) : (
+              <XCircle className="w-5 h-5 text-destructive shrink-0" />
+            )}
+          </div>
+        ))}
+      </div>
+    </ThemedCard>
+  );
+};
@@ -0,0 +1,81 @@
+import { useEffect, type CSSProperties } from 'react';
+import { ThemedButton } from '@/components/ThemedButton';
+import { ThemedCard } from '@/components/ThemedCard';
+import { RevealCard } from '@/components/game/RevealCard';
+import { SkinScope } from '@/contexts/SkinContext';
+import { loadFontStylesheet, skinCssVariables, type EntitySkin } from '@/lib/skin';
+import { Crown, Users } from 'lucide-react';
+
+const mockPlayers = [
+  { name: 'Alex', score: 42, vip: true },
+  { name: 'Sam', score: 35, vip: false },
+  { name: 'Jordan', score: 28, vip: false },
+];
+
+interface SkinPreviewProps {
+  skin: EntitySkin;
+}
+
+// Mock game screens styled with the given skin. The skin's tokens and shapes
+// apply to this subtree only, so the editor around it keeps the app's look.
+export const SkinPreview = ({ skin }: SkinPreviewProps) => {
+  useEffect(() => {
+    if (skin.font) loadFontStylesheet(skin.font);
+  }, [skin.font]);
+
+  const style = { ...skinCssVariables(skin), fontFamily: 'var(--font-sans)' } as CSSProperties;
+
+  return (
+    <SkinScope skin={skin}>
+      <div style={style} className="bg-background text-foreground rounded-xl border border-border p-4 space-y-4">
+        <ThemedCard title="Waiting Room" description="Game code KNWSY">
+          <div className="space-y-3">
+            {skin.logo && <img src={skin.logo} alt="Logo" className="h-10 object-contain" />}
+            <div className="flex items-center gap-2 text-muted-foreground text-sm">
+              <Users className="w-4 h-4" />
+              {mockPlayers.length} players joined
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {mockPlayers.map((player) => (
+                <span key={player.name} className="px-3 py-1 rounded-full bg-muted text-sm font-semibold">
+                  {player.name}
+                </span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <ThemedButton gradient>
+                Start Game
+              </ThemedButton>
+              <ThemedButton variant="outline">
+                Settings
+              </ThemedButton>
+            </div>
+          </div>
+        </ThemedCard>
+
+        <div className="grid grid-cols-2 gap-3">
+          <RevealCard position={2} isRevealed={false} />
+          <RevealCard position={1} itemName="Pizza" emoji="🍕" isRevealed isCorrect={null} isVIP />
+        </div>
+
+        <ThemedCard title="Scoreboard">
+          <div className="space-y-2">
+            {mockPlayers.map((player, index) => (
+              <div
+                key={player.name}
+                className="flex items-center justify-between p-3 rounded-lg bg-muted"
+              >
+                <div className="flex items-center gap-3">
+                  <span className="text-xl font-bold text-primary">{index + 1}</span>
+                  <span className="font-semibold">{player.name}</span>
+                  {player.vip && <Crown className="w-4 h-4 text-secondary" />}
+                </div>
+                <span className="font-bold">{player.score}</span>
+              </div>
+            ))}
+          </div>
+        </ThemedCard>
+      </div>
+    </SkinScope>
+  );
+};
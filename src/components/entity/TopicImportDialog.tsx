@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { ThemedButton } from '@/components/ThemedButton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { useTopicActions } from '@/hooks/useTopics';
+import { useToast } from '@/hooks/use-toast';
+import { parseTopicFile, planTopicImport, type ImportPlanEntry, type ImportStatus } from '@/lib/topicTransfer';
+
+const statusStyles: Record<ImportStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-green-500/20 text-green-500' },
+  changed: { label: 'Changed', className: 'bg-yellow-500/20 text-yellow-500' },
+  unchanged: { label: 'Unchanged', className: 'bg-muted text-muted-foreground' },
+  conflict: { label: 'Conflict', className: 'bg-destructive/20 text-destructive' },
+  invalid: { label: 'Invalid', className: 'bg-destructive/20 text-destructive' },
+};
+
+interface TopicImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entityId: string;
+  onImported: () => void;
+}
+
+// Reads a JSON or CSV file, shows a dry run against the library, and only
+// writes once the entity confirms
+export const TopicImportDialog = ({ open, onOpenChange, entityId, onImported }: TopicImportDialogProps) => {
+  const { fetchLibrary, importTopics } = useTopicActions();
+  const { toast } = useToast();
+  const [plan, setPlan] = useState<ImportPlanEntry[] | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const applicable = (plan || []).filter((entry) => entry.status === 'new' || entry.status === 'changed');
+
+  const reset = () => {
+    setPlan(null);
+    setParseError(null);
+  };
+
+  const close = () => {
+    reset();
+    onOpenChange(false);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+
+    try {
+      const records = parseTopicFile(file.name, await file.text());
+      const library = await fetchLibrary(entityId);
+      if (library) setPlan(planTopicImport(records, library));
+    } catch (error) {
+      console.error('Error reading topic file:', error);
+      setParseError(error instanceof Error ? error.message : 'Could not read this file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+
+    setImporting(true);
+    const failures = await importTopics(entityId, plan);
+    setImporting(false);
+
+    if (failures.length > 0) {
+      toast({
+        title: 'Import Incomplete',
+        description: failures.map((failure) => `${failure.name}: ${failure.reason}`).join('\n'),
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Import Complete',
+        description: `${applicable.length} topic${applicable.length === 1 ? '' : 's'} saved`,
+      });
+    }
+
+    onImported();
+    close();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Topics</DialogTitle>
+          <DialogDescription>
+            Upload a .json or .csv file. JSON carries item emoji, descriptions and images; CSV carries item
+            names only, so existing items keep their media. Nothing is saved until you review the changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input type="file" accept=".json,.csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+
+        {parseError && <p className="text-sm text-destructive">{parseError}</p>}
+
+        {plan && (
+          <div className="max-h-80 overflow-y-auto space-y-2">
+            {plan.map((entry, index) => (
+              <div key={`${entry.record.name}-${index}`} className="p-3 bg-muted rounded-lg">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="font-semibold">{entry.record.name || 'Untitled'}</span>
+                  <span
+                    className={`text-xs font-semibold px-2 py-1 rounded-full ${statusStyles[entry.status].className}`}
+                  >
+                    {statusStyles[entry.status].label}
+                  </span>
+                </div>
+                {entry.reasons.map((reason) => (
+                  <p key={reason} className="text-sm text-muted-foreground mt-1">
+                    {reason}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <ThemedButton variant="outline" onClick={close}>
+            Cancel
+          </ThemedButton>
+          <ThemedButton gradient onClick={handleImport} disabled={importing || applicable.length === 0}>
+            {importing ? 'Importing...' : `Import ${applicable.length} Topic${applicable.length === 1 ? '' : 's'}`}
+          </ThemedButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
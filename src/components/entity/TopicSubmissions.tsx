@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { ThemedButton } from '@/components/ThemedButton';
+import { ThemedCard } from '@/components/ThemedCard';
+import { useTopicSubmissions } from '@/hooks/useTopics';
+import { useToast } from '@/hooks/use-toast';
+import { Check, ChevronDown, ChevronUp, X } from 'lucide-react';
+
+interface TopicSubmissionsProps {
+  entityId: string;
+  // Called after a topic has been added to the library
+  onApproved: () => void;
+}
+
+// Custom topics players have offered to the library. Renders nothing when
+// there is nothing to review.
+export const TopicSubmissions = ({ entityId, onApproved }: TopicSubmissionsProps) => {
+  const { submissions, reviewSubmission } = useTopicSubmissions(entityId);
+  const { toast } = useToast();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  if (submissions.length === 0) return null;
+
+  const handleReview = async (submissionId: string, name: string, approve: boolean) => {
+    setReviewingId(submissionId);
+    const reviewed = await reviewSubmission(submissionId, approve);
+    setReviewingId(null);
+    if (!reviewed) return;
+
+    toast({
+      title: approve ? 'Topic Added' : 'Topic Declined',
+      description: approve ? `"${name}" is now in your library` : `"${name}" was not added`,
+    });
+    if (approve) onApproved();
+  };
+
+  return (
+    <ThemedCard title="Submitted by Players" description="Review custom topics before they join your library" className="mb-6">
+      <div className="space-y-3">
+        {submissions.map(({ id, topic }) => (
+          <div key={id} className="rounded-lg bg-muted p-4">
+            <div className="flex items-center justify-between gap-3">
+              <button
+                className="flex items-center gap-2 text-left flex-1"
+                onClick={() => setExpandedId(expandedId === id ? null : id)}
+              >
+                {expandedId === id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                <span className="font-semibold">{topic.name}</span>
+                <span className="text-sm text-muted-foreground">
+                  {topic.items.length} items
+                  {topic.category && ` · ${topic.category}`}
+                </span>
+              </button>
+              <div className="flex gap-2">
+                <ThemedButton
+                  variant="outline"
+                  size="icon"
+                  aria-label={`Approve ${topic.name}`}
+                  onClick={() => handleReview(id, topic.name, true)}
+                  disabled={reviewingId === id}
+                >
+                  <Check className="w-4 h-4" />
+                </ThemedButton>
+                <ThemedButton
+                  variant="outline"
+                  size="icon"
+                  aria-label={`Decline ${topic.name}`}
+                  onClick={() => handleReview(id, topic.name, false)}
+                  disabled={reviewingId === id}
+                >
+                  <X className="w-4 h-4" />
+                </ThemedButton>
+              </div>
+            </div>
+            {expandedId === id && (
+              <ol className="list-decimal list-inside text-sm text-muted-foreground mt-3 space-y-1">
+                {topic.items.map((item) => (
+                  <li key={item}>{item}</li>
+                ))}
+              </ol>
+            )}
+          </div>
+        ))}
+      </div>
+    </ThemedCard>
+  );
+};
@@ -0,0 +1,210 @@
+import { useMemo, useState } from 'react';
+import { ThemedButton } from '@/components/ThemedButton';
+import { DraggableItemList } from '@/components/game/DraggableItemList';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useTopicActions, type TopicItem } from '@/hooks/useTopics';
+import { useToast } from '@/hooks/use-toast';
+import { TOPIC_ITEM_COUNT, normalizeName, validateTopic } from '@/lib/topics';
+import { Plus } from 'lucide-react';
+
+interface CustomTopicDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  // The game's space, which the topic can be submitted to
+  entityId: string | null;
+  // Names already in the player's personal library
+  personalTopicNames: string[];
+  // Called with the new topic once it is saved
+  onCreated: (topicId: string) => void;
+}
+
+// Lets the VIP write a topic on the spot. It is theirs alone: kept in their
+// personal library if they choose, and optionally offered to the space.
+export const CustomTopicDialog = ({
+  open,
+  onOpenChange,
+  userId,
+  entityId,
+  personalTopicNames,
+  onCreated,
+}: CustomTopicDialogProps) => {
+  const { saveTopic, submitTopic } = useTopicActions();
+  const { toast } = useToast();
+  const [title, setTitle] = useState('');
+  const [items, setItems] = useState<TopicItem[]>([]);
+  const [newItem, setNewItem] = useState('');
+  const [saveToLibrary, setSaveToLibrary] = useState(false);
+  const [submitForReview, setSubmitForReview] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // A one-off topic is archived straight away, so only a kept one can clash
+  const errors = useMemo(
+    () => validateTopic({ name: title, items }, saveToLibrary ? personalTopicNames : []),
+    [title, items, saveToLibrary, personalTopicNames]
+  );
+
+  const reset = () => {
+    setTitle('');
+    setItems([]);
+    setNewItem('');
+    setSaveToLibrary(false);
+    setSubmitForReview(false);
+  };
+
+  const handleAddItem = () => {
+    const name = newItem.trim();
+    if (!name) return;
+
+    if (items.some((item) => normalizeName(item.name) === normalizeName(name))) {
+      toast({
+        title: 'Duplicate Item',
+        description: `"${name}" is already in this topic`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setItems((prev) => [...prev, { id: crypto.randomUUID(), name }]);
+    setNewItem('');
+  };
+
+  const handleCreate = async () => {
+    if (errors.length > 0) return;
+
+    setSaving(true);
+    const topicId = await saveTopic({
+      entityId: null,
+      name: title,
+      items,
+      archived: !saveToLibrary,
+    });
+
+    if (topicId && submitForReview && entityId) {
+      const submitted = await submitTopic(topicId, entityId, userId);
+      if (submitted) {
+        toast({
+          title: 'Topic Submitted',
+          description: 'The space will review it for their library',
+        });
+      }
+    }
+    setSaving(false);
+
+    if (topicId) {
+      reset();
+      onOpenChange(false);
+      onCreated(topicId);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Create Custom Topic</DialogTitle>
+          <DialogDescription>
+            Write {TOPIC_ITEM_COUNT} items for this round. Other players only see it while it is played.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="custom-title">Topic Title</Label>
+            <Input
+              id="custom-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g., Best Road Trip Snacks"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="custom-item" className="block mb-2">
+              Items ({items.length}/{TOPIC_ITEM_COUNT})
+            </Label>
+            <form
+              className="flex gap-2 mb-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleAddItem();
+              }}
+            >
+              <Input
+                id="custom-item"
+                value={newItem}
+                onChange={(e) => setNewItem(e.target.value)}
+                placeholder="Add an item"
+                disabled={items.length >= TOPIC_ITEM_COUNT}
+              />
+              <ThemedButton
+                type="submit"
+                variant="outline"
+                disabled={!newItem.trim() || items.length >= TOPIC_ITEM_COUNT}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add
+              </ThemedButton>
+            </form>
+
+            {items.length > 0 && (
+              <DraggableItemList
+                items={items}
+                onReorder={setItems}
+                onRemove={(id) => setItems((prev) => prev.filter((item) => item.id !== id))}
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="save-to-library"
+                checked={saveToLibrary}
+                onCheckedChange={(checked) => setSaveToLibrary(checked === true)}
+              />
+              <Label htmlFor="save-to-library">Save to my topics for future games</Label>
+            </div>
+            {entityId && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="submit-for-review"
+                  checked={submitForReview}
+                  onCheckedChange={(checked) => setSubmitForReview(checked === true)}
+                />
+                <Label htmlFor="submit-for-review">Submit to this space's library for review</Label>
+              </div>
+            )}
+          </div>
+
+          {errors.length > 0 && (title || items.length > 0) && (
+            <ul className="text-sm text-destructive space-y-1">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <ThemedButton variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </ThemedButton>
+          <ThemedButton gradient onClick={handleCreate} disabled={saving || errors.length > 0}>
+            {saving ? 'Saving...' : 'Play This Topic'}
+          </ThemedButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
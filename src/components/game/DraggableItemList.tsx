@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, type SyntheticEvent } from 'react';
 import {
   DndContext,
   closestCenter,
@@ -16,12 +16,18 @@ import {
   useSortable,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { GripVertical } from 'lucide-react';
+import { GripVertical, Pencil, X } from 'lucide-react';
+import { ItemThumbnail } from '@/components/game/ItemThumbnail';
+import { useActiveSkin } from '@/contexts/SkinContext';
+import { buttonRadiusClass } from '@/lib/skin';
 import { cn } from '@/lib/utils';
 
 interface Item {
   id: string;
   name: string;
+  emoji?: string | null;
+  description?: string | null;
+  image_url?: string | null;
 }
 
 interface DraggableItemListProps {
@@ -29,9 +35,27 @@ interface DraggableItemListProps {
   onReorder: (items: Item[]) => void;
   disabled?: boolean;
   showPosition?: boolean;
+  // Shows a remove button on each item when given
+  onRemove?: (id: string) => void;
+  // Shows an edit button on each item when given
+  onEdit?: (id: string) => void;
+  // Items below this many are dealt but not ranked
+  rankedCount?: number;
 }
 
-function SortableItem({ item, index, disabled }: { item: Item; index: number; disabled?: boolean }) {
+interface SortableItemProps {
+  item: Item;
+  index: number;
+  disabled?: boolean;
+  unranked?: boolean;
+  onRemove?: (id: string) => void;
+  onEdit?: (id: string) => void;
+}
+
+// Keeps a button press from starting a drag
+const stopDrag = (e: SyntheticEvent) => e.stopPropagation();
+
+function SortableItem({ item, index, disabled, unranked, onRemove, onEdit }: SortableItemProps) {
   const {
     attributes,
     listeners,
@@ -40,6 +64,8 @@ function SortableItem({ item, index, disabled }: { item: Item; index: number; di
     transition,
     isDragging,
   } = useSortable({ id: item.id, disabled });
+  // Rows are drag handles, so they take the skin's button shape
+  const skin = useActiveSkin();
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -51,16 +77,50 @@ function SortableItem({ item, index, disabled }: { item: Item; index: number; di
       ref={setNodeRef}
       style={style}
       className={cn(
-        'flex items-center gap-3 p-4 bg-muted rounded-lg transition-colors',
+        'flex items-center gap-3 p-4 bg-muted transition-colors',
+        buttonRadiusClass[skin.shapes?.buttonStyle ?? 'rounded'],
         !disabled && 'cursor-move hover:bg-muted/80',
+        unranked && 'opacity-60',
         isDragging && 'opacity-50 z-50'
       )}
       {...attributes}
       {...listeners}
     >
       {!disabled && <GripVertical className="w-5 h-5 text-muted-foreground" />}
-      <span className="text-2xl font-bold text-primary">{index + 1}</span>
-      <span className="text-lg font-semibold flex-1">{item.name}</span>
+      <span className={cn('text-2xl font-bold', unranked ? 'text-muted-foreground' : 'text-primary')}>
+        {unranked ? '–' : index + 1}
+      </span>
+      <ItemThumbnail name={item.name} emoji={item.emoji} imageUrl={item.image_url} />
+      <div className="flex-1 min-w-0">
+        <span className="text-lg font-semibold block">{item.name}</span>
+        {item.description && (
+          <span className="text-sm text-muted-foreground block truncate">{item.description}</span>
+        )}
+      </div>
+      {onEdit && !disabled && (
+        <button
+          type="button"
+          aria-label={`Edit ${item.name}`}
+          className="text-muted-foreground hover:text-primary transition-colors"
+          onPointerDown={stopDrag}
+          onKeyDown={stopDrag}
+          onClick={() => onEdit(item.id)}
+        >
+          <Pencil className="w-5 h-5" />
+        </button>
+      )}
+      {onRemove && !disabled && (
+        <button
+          type="button"
+          aria-label={`Remove ${item.name}`}
+          className="text-muted-foreground hover:text-destructive transition-colors"
+          onPointerDown={stopDrag}
+          onKeyDown={stopDrag}
+          onClick={() => onRemove(item.id)}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      )}
     </div>
   );
 }
@@ -69,10 +129,18 @@ export const DraggableItemList = ({
   items, 
   onReorder, 
   disabled = false,
-  showPosition = true 
+  showPosition = true,
+  onRemove,
+  onEdit,
+  rankedCount,
 }: DraggableItemListProps) => {
   const [localItems, setLocalItems] = useState(items);
 
+  // Follow items added or removed by the parent
+  useEffect(() => {
+    setLocalItems(items);
+  }, [items]);
+
   const sensors = useSensors(
     useSensor(PointerSensor),
     useSensor(KeyboardSensor, {
@@ -106,12 +174,21 @@ export const DraggableItemList = ({
       >
         <div className="space-y-3">
           {localItems.map((item, index) => (
-            <SortableItem
-              key={item.id}
-              item={item}
-              index={index}
-              disabled={disabled}
-            />
+            <div key={item.id}>
+              {index === rankedCount && rankedCount < localItems.length && (
+                <p className="text-xs uppercase tracking-wide text-muted-foreground text-center mb-3">
+                  Not ranked
+                </p>
+              )}
+              <SortableItem
+                item={item}
+                index={index}
+                disabled={disabled}
+                unranked={rankedCount !== undefined && index >= rankedCount}
+                onRemove={onRemove}
+                onEdit={onEdit}
+              />
+            </div>
           ))}
         </div>
       </SortableContext>
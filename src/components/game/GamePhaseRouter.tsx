@@ -0,0 +1,48 @@
+import type { ComponentType } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useGameState } from '@/hooks/useGameState';
+import { resolveGamePhase, type GamePhaseScreen } from '@/lib/gamePhase';
+import { GameWaitingRoom } from '@/screens/game/GameWaitingRoom';
+import { TopicSelection } from '@/screens/game/TopicSelection';
+import { VIPRanking } from '@/screens/game/VIPRanking';
+import { PlayerGuessing } from '@/screens/game/PlayerGuessing';
+import { PhaseSpectator } from '@/screens/game/PhaseSpectator';
+import { RevealAnimation } from '@/screens/game/RevealAnimation';
+import { RoundScoreboard } from '@/screens/game/RoundScoreboard';
+import { GameOverScreen } from '@/screens/game/GameOverScreen';
+
+const phaseScreens: Record<GamePhaseScreen, ComponentType> = {
+  lobby: GameWaitingRoom,
+  'topic-selection': TopicSelection,
+  'vip-ranking': VIPRanking,
+  guessing: PlayerGuessing,
+  spectating: PhaseSpectator,
+  reveal: RevealAnimation,
+  scoreboard: RoundScoreboard,
+  'game-over': GameOverScreen,
+};
+
+// Renders whichever screen the current phase calls for. Screens are keyed
+// by round so their local state starts fresh every round.
+export const GamePhaseRouter = () => {
+  const { user } = useAuth();
+  const { game, currentRound, loading } = useGameState();
+
+  if (loading || !game) {
+    return (
+      <div className="min-h-screen bg-background p-6 flex items-center justify-center">
+        <p className="text-muted-foreground">Loading game...</p>
+      </div>
+    );
+  }
+
+  const phase = resolveGamePhase({
+    gameStatus: game.status,
+    currentVipId: game.current_vip_id,
+    round: currentRound,
+    userId: user?.id ?? null,
+  });
+  const Screen = phaseScreens[phase];
+
+  return <Screen key={`${phase}-${currentRound?.id ?? 'none'}`} />;
+};
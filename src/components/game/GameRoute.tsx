@@ -0,0 +1,59 @@
+import { useEffect, useState, ReactNode } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ThemedButton } from '@/components/ThemedButton';
+import { useGame } from '@/contexts/GameContext';
+import { useSkin } from '@/contexts/SkinContext';
+import { useGameState } from '@/hooks/useGameState';
+
+interface GameRouteProps {
+  children: ReactNode;
+}
+
+// Rebuilds the game context from the :code in the URL, so game screens
+// survive a refresh and can be opened from a shared link. Also applies the
+// skin of the game's entity, however the player got here.
+export const GameRoute = ({ children }: GameRouteProps) => {
+  const navigate = useNavigate();
+  const { code } = useParams();
+  const { gameCode, enterGame } = useGame();
+  const { game } = useGameState();
+  const { loadEntitySkin, resetToDefaultSkin } = useSkin();
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    if (!code) return;
+
+    setMissing(false);
+    enterGame(code).then((found) => setMissing(!found));
+  }, [code]);
+
+  useEffect(() => {
+    if (!game) return;
+
+    if (game.entity_id) loadEntitySkin(game.entity_id);
+    else resetToDefaultSkin();
+  }, [game?.id, game?.entity_id]);
+
+  if (missing) {
+    return (
+      <div className="min-h-screen bg-background p-6 flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-muted-foreground mb-4">This game doesn't exist or you're not part of it</p>
+          <ThemedButton variant="outline" onClick={() => navigate('/user/home')}>
+            Back to Home
+          </ThemedButton>
+        </div>
+      </div>
+    );
+  }
+
+  if (gameCode !== code) {
+    return (
+      <div className="min-h-screen bg-background p-6 flex items-center justify-center">
+        <p className="text-muted-foreground">Loading game...</p>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
@@ -0,0 +1,37 @@
+import { cn } from '@/lib/utils';
+
+interface ItemThumbnailProps {
+  name: string;
+  emoji?: string | null;
+  imageUrl?: string | null;
+  className?: string;
+}
+
+// An item's image, or its emoji when it has none. Renders nothing for
+// plain-text items.
+export const ItemThumbnail = ({ name, emoji, imageUrl, className }: ItemThumbnailProps) => {
+  if (imageUrl) {
+    return (
+      <img
+        src={imageUrl}
+        alt={name}
+        loading="lazy"
+        className={cn('w-10 h-10 rounded-md object-cover flex-shrink-0', className)}
+      />
+    );
+  }
+
+  if (emoji) {
+    return (
+      <span
+        role="img"
+        aria-label={name}
+        className={cn('w-10 h-10 flex items-center justify-center text-2xl flex-shrink-0', className)}
+      >
+        {emoji}
+      </span>
+    );
+  }
+
+  return null;
+};
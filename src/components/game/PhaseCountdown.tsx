@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'react';
+import { cn } from '@/lib/utils';
+import { Timer } from 'lucide-react';
+
+interface PhaseCountdownProps {
+  deadline?: string | null;
+  label?: string;
+  className?: string;
+}
+
+const secondsLeft = (deadline: string) =>
+  Math.max(0, Math.ceil((new Date(deadline).getTime() - Date.now()) / 1000));
+
+export const PhaseCountdown = ({ deadline, label = 'Time left', className }: PhaseCountdownProps) => {
+  const [remaining, setRemaining] = useState(() => (deadline ? secondsLeft(deadline) : 0));
+
+  useEffect(() => {
+    if (!deadline) return;
+
+    setRemaining(secondsLeft(deadline));
+    const interval = setInterval(() => setRemaining(secondsLeft(deadline)), 1000);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  if (!deadline) return null;
+
+  const minutes = Math.floor(remaining / 60);
+  const seconds = String(remaining % 60).padStart(2, '0');
+
+  return (
+    <div
+      className={cn(
+        'flex items-center justify-center gap-2 text-sm font-semibold',
+        remaining <= 10 ? 'text-destructive animate-pulse' : 'text-muted-foreground',
+        className
+      )}
+    >
+      <Timer className="w-4 h-4" />
+      <span>
+        {label}: {minutes}:{seconds}
+      </span>
+    </div>
+  );
+};
@@ -1,10 +1,21 @@
 import { useState, useEffect } from 'react';
+import { ItemThumbnail } from '@/components/game/ItemThumbnail';
+import { useActiveSkin } from '@/contexts/SkinContext';
+import { cardRadiusClass } from '@/lib/skin';
 import { cn } from '@/lib/utils';
 import { CheckCircle2, XCircle } from 'lucide-react';
 
+const stripes = {
+  backgroundImage:
+    'repeating-linear-gradient(135deg, hsl(var(--primary) / 0.25) 0 12px, hsl(var(--secondary) / 0.25) 12px 24px)',
+};
+
 interface RevealCardProps {
   position: number;
   itemName?: string;
+  emoji?: string | null;
+  imageUrl?: string | null;
+  description?: string | null;
   isCorrect?: boolean | null;
   isRevealed: boolean;
   isVIP?: boolean;
@@ -13,11 +24,17 @@ interface RevealCardProps {
 export const RevealCard = ({ 
   position, 
   itemName, 
+  emoji,
+  imageUrl,
+  description,
   isCorrect, 
   isRevealed,
   isVIP = false 
 }: RevealCardProps) => {
   const [flipped, setFlipped] = useState(false);
+  const skin = useActiveSkin();
+  const radius = cardRadiusClass[skin.shapes?.cardStyle ?? 'rounded'];
+  const cardBack = skin.cardBack === 'logo' && !skin.logo ? 'question' : skin.cardBack ?? 'question';
 
   useEffect(() => {
     if (isRevealed && !flipped) {
@@ -27,6 +44,9 @@ export const RevealCard = ({
     }
   }, [isRevealed, flipped]);
 
+  // Text follows the tokens under it so skins can be contrast-checked
+  const textClass = isCorrect === null ? 'text-primary-foreground' : 'text-foreground';
+
   return (
     <div className="perspective-1000 w-full">
       <div
@@ -38,26 +58,37 @@ export const RevealCard = ({
         {/* Back of card (shown initially) */}
         <div
           className={cn(
-            'absolute inset-0 backface-hidden rounded-xl flex items-center justify-center',
-            'bg-gradient-to-br from-primary/20 to-secondary/20 border-2 border-primary/30'
+            'absolute inset-0 backface-hidden flex items-center justify-center',
+            'bg-gradient-to-br from-primary/20 to-secondary/20 border-2 border-primary/30',
+            radius
           )}
+          style={cardBack === 'pattern' ? stripes : undefined}
         >
-          <span className="text-4xl font-bold text-muted-foreground">?</span>
+          {cardBack === 'logo' ? (
+            <img src={skin.logo} alt="" className="h-12 max-w-[60%] object-contain" />
+          ) : (
+            <span className="text-4xl font-bold text-muted-foreground">?</span>
+          )}
         </div>
 
         {/* Front of card (shown after flip) */}
         <div
           className={cn(
-            'absolute inset-0 backface-hidden rotate-y-180 rounded-xl p-4',
+            'absolute inset-0 backface-hidden rotate-y-180 p-4',
+            radius,
             'flex items-center justify-between gap-3',
             isCorrect === true && 'bg-green-500/20 border-2 border-green-500',
             isCorrect === false && 'bg-red-500/20 border-2 border-red-500',
             isCorrect === null && 'bg-gradient-to-br from-primary to-secondary'
           )}
         >
-          <div className="flex items-center gap-3 flex-1">
-            <span className="text-2xl font-bold text-white">{position}</span>
-            <span className="text-lg font-semibold text-white truncate">{itemName || '???'}</span>
+          <div className="flex items-center gap-3 flex-1 min-w-0">
+            <span className={cn('text-2xl font-bold', textClass)}>{position}</span>
+            <ItemThumbnail name={itemName || ''} emoji={emoji} imageUrl={imageUrl} className="w-16 h-16" />
+            <div className="min-w-0">
+              <span className={cn('text-lg font-semibold truncate block', textClass)}>{itemName || '???'}</span>
+              {description && <span className={cn('text-sm opacity-80 truncate block', textClass)}>{description}</span>}
+            </div>
           </div>
           
           {isCorrect === true && (
@@ -67,7 +98,7 @@ export const RevealCard = ({
             <XCircle className="w-6 h-6 text-red-400 flex-shrink-0" />
           )}
           {isVIP && isCorrect === null && (
-            <span className="text-xs bg-white/20 text-white px-2 py-1 rounded-full">VIP</span>
+            <span className="text-xs bg-primary-foreground/20 text-primary-foreground px-2 py-1 rounded-full">VIP</span>
           )}
         </div>
       </div>
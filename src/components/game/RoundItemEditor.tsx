@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { ThemedButton } from '@/components/ThemedButton';
+import { Input } from '@/components/ui/input';
+import { MAX_ROUND_ITEMS, findDuplicateItems } from '@/lib/topics';
+import { Plus, X } from 'lucide-react';
+
+interface EditableItem {
+  id: string;
+  name: string;
+}
+
+interface RoundItemEditorProps {
+  items: EditableItem[];
+  // Resolves to whether the new set was saved
+  onSave: (names: string[]) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+// Lets the VIP rename, replace or add items of an editable topic for their
+// round only
+export const RoundItemEditor = ({ items, onSave, onCancel }: RoundItemEditorProps) => {
+  const [draft, setDraft] = useState(items.map((item) => ({ key: item.id, name: item.name })));
+  const [saving, setSaving] = useState(false);
+
+  const duplicates = findDuplicateItems(draft);
+  const hasBlank = draft.some((item) => !item.name.trim());
+  const canSave = !saving && !hasBlank && duplicates.length === 0 && draft.length >= 2;
+
+  const updateName = (key: string, name: string) => {
+    setDraft((prev) => prev.map((item) => (item.key === key ? { ...item, name } : item)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const saved = await onSave(draft.map((item) => item.name.trim()));
+    setSaving(false);
+    if (saved) onCancel();
+  };
+
+  return (
+    <div className="space-y-3">
+      {draft.map((item, index) => (
+        <div key={item.key} className="flex items-center gap-3">
+          <span className="text-2xl font-bold text-primary w-8">{index + 1}</span>
+          <Input value={item.name} onChange={(e) => updateName(item.key, e.target.value)} />
+          <ThemedButton
+            variant="outline"
+            size="icon"
+            onClick={() => setDraft((prev) => prev.filter((other) => other.key !== item.key))}
+            disabled={draft.length <= 2}
+            aria-label={`Remove ${item.name}`}
+          >
+            <X className="w-4 h-4" />
+          </ThemedButton>
+        </div>
+      ))}
+
+      <ThemedButton
+        variant="outline"
+        className="w-full"
+        onClick={() => setDraft((prev) => [...prev, { key: crypto.randomUUID(), name: '' }])}
+        disabled={draft.length >= MAX_ROUND_ITEMS}
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add Item ({draft.length}/{MAX_ROUND_ITEMS})
+      </ThemedButton>
+
+      {duplicates.length > 0 && (
+        <p className="text-sm text-destructive">Duplicate items: {duplicates.join(', ')}</p>
+      )}
+
+      <div className="flex gap-3 pt-3">
+        <ThemedButton gradient className="flex-1" onClick={handleSave} disabled={!canSave}>
+          {saving ? 'Saving...' : 'Use These Items'}
+        </ThemedButton>
+        <ThemedButton variant="outline" onClick={onCancel}>
+          Cancel
+        </ThemedButton>
+      </div>
+    </div>
+  );
+};
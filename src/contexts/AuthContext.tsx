@@ -2,10 +2,18 @@ import React, { createContext, useContext, useState, useEffect, ReactNode } from
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 
+export type AccountRole = 'player' | 'entity';
+
+// Where each kind of account lands after signing in
+export const roleHomePath: Record<AccountRole, string> = {
+  player: '/user/home',
+  entity: '/entity/dashboard',
+};
+
 interface User {
   id: string;
   email: string;
-  isEntity: boolean;
+  role: AccountRole;
   entityId?: string;
 }
 
@@ -57,7 +65,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  const loadUserProfile = async (userId: string) => {
+  const loadUserProfile = async (userId: string): Promise<User | null> => {
     try {
       const { data: profile, error } = await supabase
         .from('profiles')
@@ -67,16 +75,30 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
       if (error) throw error;
 
+      // The entity an entity account manages, if it has set one up yet
+      const { data: adminOf } = await supabase
+        .from('entity_members')
+        .select('entity_id')
+        .eq('user_id', userId)
+        .eq('role', 'admin')
+        .order('joined_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
       if (profile) {
-        setUser({
+        const loaded: User = {
           id: userId,
           email: profile.username || '',
-          isEntity: false,
-          entityId: undefined,
-        });
+          role: profile.account_type === 'entity' ? 'entity' : 'player',
+          entityId: adminOf?.entity_id,
+        };
+        setUser(loaded);
+        return loaded;
       }
+      return null;
     } catch (error) {
       console.error('Error loading profile:', error);
+      return null;
     } finally {
       setLoading(false);
     }
@@ -92,7 +114,18 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       if (error) throw error;
 
       if (data.user) {
-        await loadUserProfile(data.user.id);
+        const loaded = await loadUserProfile(data.user.id);
+
+        if (loaded && (loaded.role === 'entity') !== isEntity) {
+          await supabase.auth.signOut();
+          setUser(null);
+          throw new Error(
+            loaded.role === 'entity'
+              ? 'This is an entity account. Log in from the Entity tab.'
+              : 'This is a player account. Log in from the Player tab.'
+          );
+        }
+
         toast({
           title: 'Success',
           description: 'Logged in successfully',
@@ -120,6 +153,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         options: {
           data: {
             username,
+            account_type: isEntity ? 'entity' : 'player',
           },
         },
       });
@@ -1,37 +1,101 @@
 import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
 import { useAuth } from './AuthContext';
-import { useGameState } from '@/hooks/useGameState';
-import { useGameActions } from '@/hooks/useGameActions';
+import { GameStateContext, useGameStore } from '@/hooks/useGameState';
+import { useGameActions, GameSettingsInput } from '@/hooks/useGameActions';
+import { usePresenceFailover } from '@/hooks/usePresenceFailover';
+import { supabase } from '@/integrations/supabase/client';
 import { useNavigate } from 'react-router-dom';
 
+// Screens reachable outside the phase flow, which GamePhaseRouter handles
+export type GameScreen = 'settings' | 'invite' | 'chat';
+
+interface ResumableGame {
+  id: string;
+  code: string;
+}
+
 interface GameContextType {
   gameId: string | null;
+  gameCode: string | null;
   isVIP: boolean;
   isCreator: boolean;
-  createGame: (settings?: { target_score?: number; points_per_correct?: number }) => Promise<void>;
+  resumableGame: ResumableGame | null;
+  gamePath: (screen?: GameScreen) => string;
+  createGame: (entityId: string, settings?: GameSettingsInput) => Promise<void>;
   joinGame: (code: string) => Promise<void>;
+  enterGame: (code: string) => Promise<boolean>;
   leaveGame: () => void;
 }
 
 const GameContext = createContext<GameContextType | undefined>(undefined);
 
+// Remembers the last game per account so a refresh can pick it back up
+const activeGameKey = (userId: string) => `knowsy:active-game:${userId}`;
+
+const pathFor = (code: string, screen?: GameScreen) => (screen ? `/game/${code}/${screen}` : `/game/${code}`);
+
 export const GameProvider = ({ children }: { children: ReactNode }) => {
   const [gameId, setGameId] = useState<string | null>(null);
+  const [resumableGame, setResumableGame] = useState<ResumableGame | null>(null);
   const { user } = useAuth();
-  const { game, players } = useGameState(gameId);
+  const store = useGameStore(gameId);
+  const { game, players, currentRound, presenceOf } = store;
   const gameActions = useGameActions();
   const navigate = useNavigate();
 
   const isVIP = game?.current_vip_id === user?.id;
   const isCreator = game?.creator_id === user?.id;
+  const gameCode = game?.id === gameId ? game?.code ?? null : null;
+
+  usePresenceFailover(game, players, currentRound, presenceOf);
+
+  useEffect(() => {
+    if (!user) {
+      setGameId(null);
+      setResumableGame(null);
+      return;
+    }
+    findResumableGame(user.id);
+  }, [user?.id, gameId]);
+
+  useEffect(() => {
+    if (!user) return;
+    if (gameId) {
+      localStorage.setItem(activeGameKey(user.id), gameId);
+    }
+  }, [gameId, user?.id]);
+
+  // Unfinished games this user is in, preferring the one they had open last
+  const findResumableGame = async (userId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('game_players')
+        .select('game_id, games!inner(id, code, status)')
+        .eq('user_id', userId)
+        .neq('games.status', 'finished')
+        .order('joined_at', { ascending: false });
 
-  const createGame = async (settings?: { target_score?: number; points_per_correct?: number }) => {
+      if (error) throw error;
+
+      const games = (data || []).map((row) => row.games);
+      const storedId = localStorage.getItem(activeGameKey(userId));
+      const resumable = games.find((g) => g.id === storedId) ?? games[0];
+
+      setResumableGame(resumable ? { id: resumable.id, code: resumable.code } : null);
+    } catch (error) {
+      console.error('Error finding active game:', error);
+    }
+  };
+
+  const gamePath = (screen?: GameScreen) => (gameCode ? pathFor(gameCode, screen) : '/user/home');
+
+  const createGame = async (entityId: string, settings?: GameSettingsInput) => {
     if (!user) return;
 
-    const newGame = await gameActions.createGame(user.id, settings);
+    const newGame = await gameActions.createGame(user.id, entityId, settings);
     if (newGame) {
       setGameId(newGame.id);
-      navigate('/game/waiting-room');
+      navigate(pathFor(newGame.code));
     }
   };
 
@@ -41,12 +105,37 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
     const game = await gameActions.joinGame(code, user.id);
     if (game) {
       setGameId(game.id);
-      navigate('/game/waiting-room');
+      navigate(pathFor(game.code));
+    }
+  };
+
+  // Restores the game behind a /game/:code/... URL. Only games the user
+  // already plays in are visible to them.
+  const enterGame = async (code: string) => {
+    if (gameCode === code) return true;
+
+    try {
+      const { data, error } = await supabase
+        .from('games')
+        .select('id')
+        .eq('code', code)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return false;
+
+      setGameId(data.id);
+      return true;
+    } catch (error) {
+      console.error('Error entering game:', error);
+      return false;
     }
   };
 
   const leaveGame = () => {
+    if (user) localStorage.removeItem(activeGameKey(user.id));
     setGameId(null);
+    setResumableGame(null);
     navigate('/user/home');
   };
 
@@ -54,14 +143,18 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
     <GameContext.Provider
       value={{
         gameId,
+        gameCode,
         isVIP,
         isCreator,
+        resumableGame,
+        gamePath,
         createGame,
         joinGame,
+        enterGame,
         leaveGame,
       }}
     >
-      {children}
+      <GameStateContext.Provider value={store}>{children}</GameStateContext.Provider>
     </GameContext.Provider>
   );
 };
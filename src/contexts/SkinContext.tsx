@@ -1,42 +1,54 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
-
-interface EntitySkin {
-  id: string;
-  primaryColor: string;
-  secondaryColor: string;
-  logo?: string;
-  font?: string;
-  shapes?: {
-    buttonStyle: 'rounded' | 'sharp' | 'pill';
-    cardStyle: 'rounded' | 'sharp';
-  };
-}
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { SKIN_VARIABLES, defaultSkin, loadFontStylesheet, skinCssVariables, skinFromRow, type EntitySkin } from '@/lib/skin';
 
 interface SkinContextType {
   currentSkin: EntitySkin | null;
-  loadEntitySkin: (entityId: string) => void;
+  loadEntitySkin: (entityId: string) => Promise<void>;
   resetToDefaultSkin: () => void;
 }
 
-const defaultSkin: EntitySkin = {
-  id: 'default',
-  primaryColor: 'hsl(270 100% 65%)',
-  secondaryColor: 'hsl(190 100% 50%)',
-  shapes: {
-    buttonStyle: 'rounded',
-    cardStyle: 'rounded',
-  },
-};
-
 const SkinContext = createContext<SkinContextType | undefined>(undefined);
 
+// Set by SkinScope so a subtree (e.g. the editor's preview) can render with a
+// skin other than the live one
+const SkinScopeContext = createContext<EntitySkin | null>(null);
+
+// Writes the skin's tokens onto the root element; the default skin removes
+// them so index.css applies again
+const applySkin = (skin: EntitySkin | null) => {
+  const root = document.documentElement;
+  SKIN_VARIABLES.forEach((name) => root.style.removeProperty(name));
+
+  if (!skin || skin.id === defaultSkin.id) return;
+
+  Object.entries(skinCssVariables(skin)).forEach(([name, value]) => root.style.setProperty(name, value));
+  if (skin.font) loadFontStylesheet(skin.font);
+};
+
 export const SkinProvider = ({ children }: { children: ReactNode }) => {
   const [currentSkin, setCurrentSkin] = useState<EntitySkin | null>(defaultSkin);
 
-  const loadEntitySkin = (entityId: string) => {
-    // Placeholder - would fetch from database
-    // For now, just use default skin
-    setCurrentSkin(defaultSkin);
+  useEffect(() => {
+    applySkin(currentSkin);
+  }, [currentSkin]);
+
+  // Entities without a skin of their own get the default
+  const loadEntitySkin = async (entityId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('entity_skins')
+        .select('*')
+        .eq('entity_id', entityId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      setCurrentSkin(data ? skinFromRow(data.entity_id, data) : defaultSkin);
+    } catch (error) {
+      console.error('Error loading entity skin:', error);
+      setCurrentSkin(defaultSkin);
+    }
   };
 
   const resetToDefaultSkin = () => {
@@ -57,3 +69,14 @@ export const useSkin = () => {
   }
   return context;
 };
+
+export const SkinScope = ({ skin, children }: { skin: EntitySkin; children: ReactNode }) => (
+  <SkinScopeContext.Provider value={skin}>{children}</SkinScopeContext.Provider>
+);
+
+// The skin components should style themselves with
+export const useActiveSkin = () => {
+  const scoped = useContext(SkinScopeContext);
+  const { currentSkin } = useSkin();
+  return scoped ?? currentSkin ?? defaultSkin;
+};
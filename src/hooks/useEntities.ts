@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { Json } from '@/integrations/supabase/types';
+
+export type EntityRole = 'member' | 'admin';
+
+export interface Entity {
+  id: string;
+  name: string;
+  slug: string;
+  owner_id: string;
+  skin: Json;
+  visibility: 'public' | 'private';
+  created_at?: string;
+}
+
+export interface EntityWithRole extends Entity {
+  // The signed-in user's role, or null when they have not joined
+  role: EntityRole | null;
+}
+
+const fetchMemberships = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('entity_members')
+    .select('entity_id, role')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return new Map((data || []).map((m) => [m.entity_id, m.role as EntityRole]));
+};
+
+// Every entity the user can see: public spaces plus private ones they belong to
+export const useEntities = () => {
+  const { user } = useAuth();
+  const [entities, setEntities] = useState<EntityWithRole[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      setEntities([]);
+      setLoading(false);
+      return;
+    }
+
+    const fetchEntities = async () => {
+      try {
+        const [{ data, error }, memberships] = await Promise.all([
+          supabase.from('entities').select('*').order('name', { ascending: true }),
+          fetchMemberships(user.id),
+        ]);
+
+        if (error) throw error;
+
+        const withRoles = (data || []).map((entity) => ({
+          ...(entity as Entity),
+          role: memberships.get(entity.id) ?? null,
+        }));
+
+        // Spaces the user belongs to come first
+        setEntities(withRoles.sort((a, b) => Number(!!b.role) - Number(!!a.role)));
+      } catch (error) {
+        console.error('Error fetching entities:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEntities();
+  }, [user?.id]);
+
+  return { entities, loading };
+};
+
+export const useEntity = (entityId: string | undefined) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [entity, setEntity] = useState<Entity | null>(null);
+  const [role, setRole] = useState<EntityRole | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchEntity = async () => {
+    if (!entityId || !user) return;
+
+    try {
+      const [{ data, error }, memberships] = await Promise.all([
+        supabase.from('entities').select('*').eq('id', entityId).maybeSingle(),
+        fetchMemberships(user.id),
+      ]);
+
+      if (error) throw error;
+      setEntity(data as Entity | null);
+      setRole(memberships.get(entityId) ?? null);
+    } catch (error) {
+      console.error('Error fetching entity:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!entityId || !user) {
+      setLoading(false);
+      return;
+    }
+    fetchEntity();
+  }, [entityId, user?.id]);
+
+  const join = async () => {
+    if (!entityId || !user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('entity_members')
+        .insert({ entity_id: entityId, user_id: user.id });
+
+      if (error) throw error;
+      setRole('member');
+      return true;
+    } catch (error) {
+      console.error('Error joining entity:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to join this space',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const leave = async () => {
+    if (!entityId || !user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('entity_members')
+        .delete()
+        .eq('entity_id', entityId)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      setRole(null);
+      return true;
+    } catch (error) {
+      console.error('Error leaving entity:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to leave this space',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  return { entity, role, loading, join, leave, refetch: fetchEntity };
+};
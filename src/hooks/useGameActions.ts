@@ -1,15 +1,58 @@
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import type { ScoringStrategyId } from '@/lib/scoring';
+import { initialRoundStatus, transitionRound, RoundEvent, RoundStatus } from '@/lib/roundStateMachine';
+
+export interface GameSettingsInput {
+  target_score?: number;
+  points_per_correct?: number;
+  bonus_all_correct?: number;
+  penalty_all_wrong?: number;
+  scoring_strategy?: ScoringStrategyId;
+  scoring_top_n?: number;
+  vip_predictability_bonus?: number;
+  guess_quorum_percent?: number;
+  guess_timeout_seconds?: number | null;
+  ranking_timeout_seconds?: number | null;
+  reveal_step_seconds?: number | null;
+  items_per_round?: number | null;
+  ranked_positions?: number | null;
+}
 
 export const useGameActions = () => {
   const { toast } = useToast();
 
-  const createGame = async (userId: string, settings?: {
-    target_score?: number;
-    points_per_correct?: number;
-    bonus_all_correct?: number;
-    penalty_all_wrong?: number;
-  }) => {
+  // Every round status change goes through the state machine. The update is
+  // conditional on the status we validated against, so a concurrent change
+  // makes this fail instead of silently overwriting it.
+  const sendRoundEvent = async (roundId: string, event: RoundEvent) => {
+    const { data: round, error: fetchError } = await supabase
+      .from('rounds')
+      .select('status, reveal_index')
+      .eq('id', roundId)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const current = { status: round.status as RoundStatus, reveal_index: round.reveal_index };
+    const patch = transitionRound(current, event);
+
+    const { data: updated, error: updateError } = await supabase
+      .from('rounds')
+      .update(patch)
+      .eq('id', roundId)
+      .eq('status', current.status)
+      .eq('reveal_index', current.reveal_index)
+      .select()
+      .maybeSingle();
+
+    if (updateError) throw updateError;
+    if (!updated) throw new Error('Round changed while updating, please retry');
+
+    return updated;
+  };
+
+  const createGame = async (userId: string, entityId: string | null, settings?: GameSettingsInput) => {
     try {
       // Generate unique 6-character code
       const code = Math.random().toString(36).substring(2, 8).toUpperCase();
@@ -20,6 +63,7 @@ export const useGameActions = () => {
           code,
           creator_id: userId,
           current_vip_id: userId,
+          entity_id: entityId,
           ...settings,
         })
         .select()
@@ -62,7 +106,7 @@ export const useGameActions = () => {
       // Find game by code
       const { data: game, error: gameError } = await supabase
         .from('games')
-        .select('id')
+        .select('id, code')
         .eq('code', code)
         .single();
 
@@ -110,20 +154,40 @@ export const useGameActions = () => {
     }
   };
 
-  const startRound = async (gameId: string, vipId: string, roundNumber: number) => {
+  const updateGameSettings = async (gameId: string, settings: GameSettingsInput) => {
+    try {
+      const { error } = await supabase
+        .from('games')
+        .update(settings)
+        .eq('id', gameId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error updating game settings:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save settings',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const startGame = async (gameId: string) => {
     try {
-      // Update game status to playing
-      await supabase
+      const { error } = await supabase
         .from('games')
         .update({ status: 'playing' })
         .eq('id', gameId);
 
+      if (error) throw error;
       return true;
     } catch (error) {
-      console.error('Error starting round:', error);
+      console.error('Error starting game:', error);
       toast({
         title: 'Error',
-        description: 'Failed to start round',
+        description: 'Failed to start game',
         variant: 'destructive',
       });
       return false;
@@ -144,7 +208,7 @@ export const useGameActions = () => {
           topic_id: topicId,
           vip_id: vipId,
           round_number: roundNumber,
-          status: 'vip_ranking',
+          status: initialRoundStatus,
         })
         .select()
         .single();
@@ -177,13 +241,7 @@ export const useGameActions = () => {
 
       if (rankError) throw rankError;
 
-      // Update round status
-      const { error: updateError } = await supabase
-        .from('rounds')
-        .update({ status: 'player_guessing' })
-        .eq('id', roundId);
-
-      if (updateError) throw updateError;
+      await sendRoundEvent(roundId, { type: 'SUBMIT_RANKING', rankedCount: rankings.length });
 
       return true;
     } catch (error) {
@@ -197,36 +255,40 @@ export const useGameActions = () => {
     }
   };
 
+  // Keeps the VIP's current order on the server so it can be auto-submitted
+  // if the ranking deadline passes
+  const saveRankingDraft = async (roundId: string, vipId: string, itemIds: string[]) => {
+    try {
+      const { error } = await supabase
+        .from('ranking_drafts')
+        .upsert({ round_id: roundId, vip_id: vipId, item_ids: itemIds });
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error saving ranking draft:', error);
+      return false;
+    }
+  };
+
   const submitGuess = async (
     roundId: string,
     userId: string,
     guesses: { itemId: string; position: number }[]
   ) => {
     try {
-      // Get VIP rankings to compare
-      const { data: rankings } = await supabase
-        .from('rankings')
-        .select('item_id, position')
-        .eq('round_id', roundId);
-
-      if (!rankings) throw new Error('Rankings not found');
-
-      // Calculate correctness
-      const guessesWithCorrectness = guesses.map((g) => {
-        const correctRanking = rankings.find((r) => r.item_id === g.itemId);
-        return {
-          round_id: roundId,
-          user_id: userId,
-          item_id: g.itemId,
-          position: g.position,
-          is_correct: correctRanking?.position === g.position,
-        };
-      });
+      // Correctness is graded server-side when the round enters the reveal
+      const guessRows = guesses.map((g) => ({
+        round_id: roundId,
+        user_id: userId,
+        item_id: g.itemId,
+        position: g.position,
+      }));
 
       // Insert guesses
       const { error } = await supabase
         .from('guesses')
-        .insert(guessesWithCorrectness);
+        .insert(guessRows);
 
       if (error) throw error;
 
@@ -244,12 +306,7 @@ export const useGameActions = () => {
 
   const startReveal = async (roundId: string) => {
     try {
-      const { error } = await supabase
-        .from('rounds')
-        .update({ status: 'revealing', reveal_index: 1 })
-        .eq('id', roundId);
-
-      if (error) throw error;
+      await sendRoundEvent(roundId, { type: 'START_REVEAL' });
       return true;
     } catch (error) {
       console.error('Error starting reveal:', error);
@@ -262,24 +319,53 @@ export const useGameActions = () => {
     }
   };
 
-  const revealNext = async (roundId: string, currentIndex: number, totalItems: number) => {
+  // Handles an expired phase deadline on the server. It re-checks the
+  // deadline itself; when the reveal runs out we finish scoring from here.
+  const expirePhase = async (roundId: string) => {
     try {
-      const nextIndex = currentIndex + 1;
-
-      if (nextIndex > totalItems) {
-        // Round complete
-        await supabase
-          .from('rounds')
-          .update({ status: 'complete' })
-          .eq('id', roundId);
-
-        // Calculate and update scores
-        await calculateScores(roundId);
-      } else {
-        await supabase
-          .from('rounds')
-          .update({ reveal_index: nextIndex })
-          .eq('id', roundId);
+      const { data, error } = await supabase.rpc('expire_round_phase', { _round_id: roundId });
+
+      if (error) throw error;
+
+      if (data === 'reveal_finished') {
+        await scoreRound(roundId);
+      }
+      return data;
+    } catch (error) {
+      console.error('Error expiring phase:', error);
+      return null;
+    }
+  };
+
+  // Re-runs the quorum check, e.g. after a player who had not guessed drops off
+  const checkGuessQuorum = async (roundId: string) => {
+    try {
+      const { data, error } = await supabase.rpc('try_start_reveal', { _round_id: roundId });
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Error checking guess quorum:', error);
+      return false;
+    }
+  };
+
+  // Steps the reveal on from revealIndex. Goes through advance_reveal rather
+  // than sendRoundEvent so a VIP who took over mid-reveal can only do this.
+  const revealNext = async (roundId: string, revealIndex: number, totalItems: number) => {
+    try {
+      transitionRound({ status: 'revealing', reveal_index: revealIndex }, { type: 'REVEAL_NEXT', totalItems });
+
+      const { data: nextIndex, error } = await supabase.rpc('advance_reveal', {
+        _round_id: roundId,
+        _from_index: revealIndex,
+      });
+
+      if (error) throw error;
+
+      // Last item shown: scoring completes the round on the server
+      if (nextIndex >= totalItems) {
+        await scoreRound(roundId);
       }
 
       return true;
@@ -294,130 +380,75 @@ export const useGameActions = () => {
     }
   };
 
-  const calculateScores = async (roundId: string) => {
+  const scoreRound = async (roundId: string) => {
     try {
-      // Get round and game info
-      const { data: round } = await supabase
-        .from('rounds')
-        .select('game_id')
-        .eq('id', roundId)
-        .single();
-
-      if (!round) throw new Error('Round not found');
-
-      const { data: game } = await supabase
-        .from('games')
-        .select('points_per_correct, bonus_all_correct, penalty_all_wrong')
-        .eq('id', round.game_id)
-        .single();
-
-      if (!game) throw new Error('Game not found');
-
-      // Get all guesses
-      const { data: guesses } = await supabase
-        .from('guesses')
-        .select('user_id, is_correct')
-        .eq('round_id', roundId);
-
-      if (!guesses) return;
-
-      // Calculate scores per player
-      const scoreUpdates: { [userId: string]: number } = {};
-
-      guesses.forEach((guess) => {
-        if (!scoreUpdates[guess.user_id]) {
-          scoreUpdates[guess.user_id] = 0;
-        }
-
-        if (guess.is_correct) {
-          scoreUpdates[guess.user_id] += game.points_per_correct;
-        }
+      // Points are computed by the score-round edge function with the game's
+      // scoring strategy and applied in one transaction; calling this twice
+      // for a round is a no-op
+      const { error } = await supabase.functions.invoke('score-round', {
+        body: { roundId },
       });
 
-      // Apply bonuses/penalties
-      Object.keys(scoreUpdates).forEach((userId) => {
-        const userGuesses = guesses.filter((g) => g.user_id === userId);
-        const allCorrect = userGuesses.every((g) => g.is_correct);
-        const allWrong = userGuesses.every((g) => !g.is_correct);
-
-        if (allCorrect) {
-          scoreUpdates[userId] += game.bonus_all_correct;
-        } else if (allWrong) {
-          scoreUpdates[userId] += game.penalty_all_wrong;
-        }
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error scoring round:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to score round',
+        variant: 'destructive',
       });
+      return false;
+    }
+  };
+
+  // Moves the VIP role on to the next (connected) player on the server.
+  // Pass the VIP being replaced so several clients reacting to the same
+  // disconnect only rotate once.
+  const rotateVIP = async (gameId: string, fromVipId?: string) => {
+    try {
+      let currentVipId = fromVipId;
 
-      // Update player scores
-      for (const [userId, scoreChange] of Object.entries(scoreUpdates)) {
-        const { data: player } = await supabase
-          .from('game_players')
-          .select('score')
-          .eq('game_id', round.game_id)
-          .eq('user_id', userId)
+      if (!currentVipId) {
+        const { data: game } = await supabase
+          .from('games')
+          .select('current_vip_id')
+          .eq('id', gameId)
           .single();
 
-        if (player) {
-          await supabase
-            .from('game_players')
-            .update({ score: player.score + scoreChange })
-            .eq('game_id', round.game_id)
-            .eq('user_id', userId);
-        }
+        if (!game || !game.current_vip_id) return false;
+        currentVipId = game.current_vip_id;
       }
 
-      // Check if game is over
-      const { data: players } = await supabase
-        .from('game_players')
-        .select('score')
-        .eq('game_id', round.game_id);
-
-      const { data: fullGame } = await supabase
-        .from('games')
-        .select('target_score')
-        .eq('id', round.game_id)
-        .single();
+      const { error } = await supabase.rpc('rotate_vip', {
+        _game_id: gameId,
+        _from_vip_id: currentVipId,
+      });
 
-      const targetScore = fullGame?.target_score || 1000;
-      if (players && players.some((p) => p.score >= targetScore)) {
-        await supabase
-          .from('games')
-          .update({ status: 'finished' })
-          .eq('id', round.game_id);
-      }
+      if (error) throw error;
+      return true;
     } catch (error) {
-      console.error('Error calculating scores:', error);
+      console.error('Error rotating VIP:', error);
+      return false;
     }
   };
 
-  const rotateVIP = async (gameId: string, players: { user_id: string }[]) => {
+  // Closes a completed round's scoreboard, passing the VIP role on unless it
+  // already moved during the reveal
+  const startNextRound = async (roundId: string) => {
     try {
-      const { data: game } = await supabase
-        .from('games')
-        .select('current_vip_id')
-        .eq('id', gameId)
-        .single();
-
-      if (!game || !game.current_vip_id) return false;
-
-      const currentIndex = players.findIndex((p) => p.user_id === game.current_vip_id);
-      const nextIndex = (currentIndex + 1) % players.length;
-      const nextVIP = players[nextIndex].user_id;
-
-      const { error } = await supabase
-        .from('games')
-        .update({ current_vip_id: nextVIP })
-        .eq('id', gameId);
+      const { error } = await supabase.rpc('start_next_round', { _round_id: roundId });
 
       if (error) throw error;
       return true;
     } catch (error) {
-      console.error('Error rotating VIP:', error);
+      console.error('Error starting next round:', error);
       return false;
     }
   };
 
-  const passVIP = async (gameId: string, players: { user_id: string }[]) => {
-    return rotateVIP(gameId, players);
+  const passVIP = async (gameId: string) => {
+    return rotateVIP(gameId);
   };
 
   const createRound = async (gameId: string, topicId: string, vipId: string) => {
@@ -437,7 +468,7 @@ export const useGameActions = () => {
           topic_id: topicId,
           vip_id: vipId,
           round_number: roundNumber,
-          status: 'vip_ranking',
+          status: initialRoundStatus,
         })
         .select()
         .single();
@@ -455,33 +486,43 @@ export const useGameActions = () => {
     }
   };
 
-  const updateRoundStatus = async (roundId: string, status: string) => {
-    try {
-      const { error } = await supabase
-        .from('rounds')
-        .update({ status })
-        .eq('id', roundId);
+  // The items a round is played with: the VIP's customised set if they made
+  // one, otherwise the topic's own items, narrowed to the round's deal
+  const fetchRoundItems = async (round: { id: string; topic_id: string; dealt_item_ids?: string[] | null }) => {
+    const { data, error } = await supabase
+      .from('topic_items')
+      .select('id, name, emoji, description, image_url, position, round_id')
+      .eq('topic_id', round.topic_id)
+      .or(`round_id.is.null,round_id.eq.${round.id}`)
+      .order('position', { ascending: true });
 
-      if (error) throw error;
-      return true;
-    } catch (error) {
-      console.error('Error updating round status:', error);
-      return false;
-    }
+    if (error) throw error;
+
+    const custom = (data || []).filter((item) => item.round_id === round.id);
+    if (custom.length > 0) return custom;
+
+    const dealt = round.dealt_item_ids ? new Set(round.dealt_item_ids) : null;
+    return (data || []).filter((item) => !item.round_id && (!dealt || dealt.has(item.id)));
   };
 
-  const updateRevealIndex = async (roundId: string, index: number) => {
+  // Replaces the round's items on an editable topic, returning the new set
+  const customizeRoundItems = async (roundId: string, names: string[]) => {
     try {
-      const { error } = await supabase
-        .from('rounds')
-        .update({ reveal_index: index })
-        .eq('id', roundId);
+      const { data, error } = await supabase.rpc('set_round_items', {
+        _round_id: roundId,
+        _names: names,
+      });
 
       if (error) throw error;
-      return true;
+      return data || [];
     } catch (error) {
-      console.error('Error updating reveal index:', error);
-      return false;
+      console.error('Error customizing items:', error);
+      toast({
+        title: 'Error',
+        description: (error as { message?: string }).message || 'Failed to save items',
+        variant: 'destructive',
+      });
+      return null;
     }
   };
 
@@ -498,6 +539,8 @@ export const useGameActions = () => {
         .insert(rankings);
 
       if (error) throw error;
+
+      await sendRoundEvent(roundId, { type: 'SUBMIT_RANKING', rankedCount: rankings.length });
       return true;
     } catch (error) {
       console.error('Error submitting ranking:', error);
@@ -516,22 +559,12 @@ export const useGameActions = () => {
     items: { id: string; name: string }[]
   ) => {
     try {
-      // Get VIP rankings to compare
-      const { data: rankings } = await supabase
-        .from('rankings')
-        .select('item_id, position')
-        .eq('round_id', roundId);
-
-      if (!rankings) throw new Error('Rankings not found');
-
-      const rankingsMap = new Map(rankings.map(r => [r.item_id, r.position]));
-
+      // Correctness is graded server-side when the round enters the reveal
       const guesses = items.map((item, index) => ({
         round_id: roundId,
         user_id: userId,
         item_id: item.id,
         position: index + 1,
-        is_correct: rankingsMap.get(item.id) === index + 1,
       }));
 
       const { error } = await supabase
@@ -566,40 +599,27 @@ export const useGameActions = () => {
     }
   };
 
-  const rotateVIPWithFetch = async (gameId: string) => {
-    try {
-      // Fetch players
-      const { data: players } = await supabase
-        .from('game_players')
-        .select('user_id')
-        .eq('game_id', gameId)
-        .order('joined_at', { ascending: true });
-
-      if (!players || players.length === 0) return false;
-
-      return rotateVIP(gameId, players);
-    } catch (error) {
-      console.error('Error rotating VIP:', error);
-      return false;
-    }
-  };
-
   return {
     createGame,
     joinGame,
-    startRound,
+    updateGameSettings,
+    startGame,
     selectTopic,
     submitVIPRanking,
+    saveRankingDraft,
     startReveal,
+    expirePhase,
+    checkGuessQuorum,
     revealNext,
     passVIP,
     createRound,
-    updateRoundStatus,
-    updateRevealIndex,
+    fetchRoundItems,
+    customizeRoundItems,
     submitRanking,
     submitGuess: submitPlayerGuess,
-    calculateScores,
+    scoreRound,
     endGame,
-    rotateVIP: rotateVIPWithFetch,
+    rotateVIP,
+    startNextRound,
   };
 };
@@ -1,17 +1,30 @@
-import { useState, useEffect } from 'react';
+import { createContext, useContext, useEffect, useReducer } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import type { ScoringStrategyId } from '@/lib/scoring';
+import type { RoundStatus } from '@/lib/roundStateMachine';
 
 export interface GameState {
   id: string;
   code: string;
   creator_id: string;
   current_vip_id: string | null;
+  entity_id: string | null;
   status: 'waiting' | 'playing' | 'finished';
   target_score: number;
   points_per_correct: number;
   bonus_all_correct: number;
   penalty_all_wrong: number;
+  scoring_strategy: ScoringStrategyId;
+  scoring_top_n: number;
+  vip_predictability_bonus: number;
+  guess_quorum_percent: number;
+  guess_timeout_seconds: number | null;
+  ranking_timeout_seconds: number | null;
+  reveal_step_seconds: number | null;
+  items_per_round: number | null;
+  ranked_positions: number | null;
   created_at?: string;
   updated_at?: string;
 }
@@ -30,42 +43,121 @@ export interface Round {
   round_number: number;
   topic_id: string;
   vip_id: string;
-  status: 'topic_selection' | 'vip_ranking' | 'player_guessing' | 'revealing' | 'complete';
+  status: RoundStatus;
   reveal_index: number;
+  ranking_deadline?: string | null;
+  guess_deadline?: string | null;
+  reveal_step_deadline?: string | null;
+  scored_at?: string | null;
+  scoreboard_closed_at?: string | null;
+  dealt_item_ids?: string[] | null;
+  ranked_positions?: number | null;
   created_at?: string;
 }
 
-export const useGameState = (gameId: string | null) => {
-  const [game, setGame] = useState<GameState | null>(null);
-  const [players, setPlayers] = useState<Player[]>([]);
-  const [currentRound, setCurrentRound] = useState<Round | null>(null);
-  const [loading, setLoading] = useState(true);
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+interface PresenceMeta {
+  user_id: string;
+  status: Exclude<PresenceStatus, 'offline'>;
+}
+
+export interface GameStoreState {
+  game: GameState | null;
+  players: Player[];
+  currentRound: Round | null;
+  presence: Record<string, PresenceStatus>;
+  loading: boolean;
+}
+
+type GameStoreAction =
+  | { type: 'reset'; loading: boolean }
+  | { type: 'loaded'; game: GameState; players: Player[]; currentRound: Round | null }
+  | { type: 'loadFailed' }
+  | { type: 'gameUpdated'; game: GameState }
+  | { type: 'playerUpserted'; player: Player }
+  | { type: 'playerRemoved'; id: string }
+  | { type: 'roundUpserted'; round: Round }
+  | { type: 'presenceSynced'; presence: Record<string, PresenceStatus> };
+
+const initialState: GameStoreState = {
+  game: null,
+  players: [],
+  currentRound: null,
+  presence: {},
+  loading: true,
+};
+
+const byJoinOrder = (a: Player, b: Player) => a.joined_at.localeCompare(b.joined_at);
+
+// Applies realtime payloads to the store one row at a time
+export const gameStoreReducer = (state: GameStoreState, action: GameStoreAction): GameStoreState => {
+  switch (action.type) {
+    case 'reset':
+      return { ...initialState, loading: action.loading };
+    case 'loaded':
+      return {
+        ...state,
+        game: action.game,
+        players: action.players,
+        currentRound: action.currentRound,
+        loading: false,
+      };
+    case 'loadFailed':
+      return { ...state, loading: false };
+    case 'gameUpdated':
+      return { ...state, game: action.game };
+    case 'playerUpserted':
+      return {
+        ...state,
+        players: [
+          ...state.players.filter((p) => p.id !== action.player.id),
+          action.player,
+        ].sort(byJoinOrder),
+      };
+    case 'playerRemoved':
+      return { ...state, players: state.players.filter((p) => p.id !== action.id) };
+    case 'roundUpserted': {
+      // Only the latest round is tracked; late updates to older rounds are ignored
+      const current = state.currentRound;
+      if (current && current.id !== action.round.id && current.round_number > action.round.round_number) {
+        return state;
+      }
+      return { ...state, currentRound: action.round };
+    }
+    case 'presenceSynced':
+      return { ...state, presence: action.presence };
+  }
+};
+
+// How often connected players confirm they are still here to the server
+const HEARTBEAT_INTERVAL_MS = 20000;
+
+// Owns the single realtime subscription for a game. Mounted once, by the
+// game provider; screens read the result through useGameState().
+export const useGameStore = (gameId: string | null) => {
+  const [state, dispatch] = useReducer(gameStoreReducer, initialState);
+  const { user } = useAuth();
   const { toast } = useToast();
 
   useEffect(() => {
-    if (!gameId) {
-      setLoading(false);
-      return;
-    }
+    dispatch({ type: 'reset', loading: !!gameId });
+    if (!gameId) return;
 
-    // Initial fetch
     fetchGameData();
 
-    // Set up real-time subscriptions
     const gameChannel = supabase
       .channel(`game-${gameId}`)
       .on(
         'postgres_changes',
         {
-          event: '*',
+          event: 'UPDATE',
           schema: 'public',
           table: 'games',
           filter: `id=eq.${gameId}`,
         },
         (payload) => {
-          if (payload.eventType === 'UPDATE') {
-            setGame(payload.new as GameState);
-          }
+          dispatch({ type: 'gameUpdated', game: payload.new as GameState });
         }
       )
       .on(
@@ -76,8 +168,12 @@ export const useGameState = (gameId: string | null) => {
           table: 'game_players',
           filter: `game_id=eq.${gameId}`,
         },
-        () => {
-          fetchPlayers();
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            dispatch({ type: 'playerRemoved', id: (payload.old as Player).id });
+          } else {
+            dispatch({ type: 'playerUpserted', player: payload.new as Player });
+          }
         }
       )
       .on(
@@ -88,26 +184,84 @@ export const useGameState = (gameId: string | null) => {
           table: 'rounds',
           filter: `game_id=eq.${gameId}`,
         },
-        () => {
-          fetchCurrentRound();
+        (payload) => {
+          if (payload.eventType !== 'DELETE') {
+            dispatch({ type: 'roundUpserted', round: payload.new as Round });
+          }
         }
       )
+      .on('presence', { event: 'sync' }, () => {
+        const next: Record<string, PresenceStatus> = {};
+        Object.values(gameChannel.presenceState<PresenceMeta>())
+          .flat()
+          .forEach((meta) => {
+            // Any visible tab makes the player online
+            if (next[meta.user_id] !== 'online') next[meta.user_id] = meta.status;
+          });
+        dispatch({ type: 'presenceSynced', presence: next });
+      })
       .subscribe();
 
+    if (!user) {
+      return () => {
+        supabase.removeChannel(gameChannel);
+      };
+    }
+
+    const announce = () => {
+      gameChannel.track({
+        user_id: user.id,
+        status: document.visibilityState === 'visible' ? 'online' : 'away',
+      });
+    };
+
+    const heartbeat = async () => {
+      const { error } = await supabase.rpc('mark_player_seen', { _game_id: gameId });
+      if (error) console.error('Error reporting presence:', error);
+    };
+
+    announce();
+    heartbeat();
+    const interval = setInterval(heartbeat, HEARTBEAT_INTERVAL_MS);
+    document.addEventListener('visibilitychange', announce);
+
     return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', announce);
       supabase.removeChannel(gameChannel);
     };
-  }, [gameId]);
+  }, [gameId, user?.id]);
 
   const fetchGameData = async () => {
     if (!gameId) return;
 
     try {
-      await Promise.all([
-        fetchGame(),
-        fetchPlayers(),
-        fetchCurrentRound(),
+      const [gameResult, playersResult, roundResult] = await Promise.all([
+        supabase.from('games').select('*').eq('id', gameId).single(),
+        supabase
+          .from('game_players')
+          .select('*')
+          .eq('game_id', gameId)
+          .order('joined_at', { ascending: true }),
+        supabase
+          .from('rounds')
+          .select('*')
+          .eq('game_id', gameId)
+          .order('round_number', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
       ]);
+
+      if (gameResult.error) throw gameResult.error;
+      if (playersResult.error) throw playersResult.error;
+      if (roundResult.error) throw roundResult.error;
+
+      dispatch({
+        type: 'loaded',
+        game: gameResult.data as GameState,
+        players: playersResult.data || [],
+        currentRound: roundResult.data as Round | null,
+      });
     } catch (error) {
       console.error('Error fetching game data:', error);
       toast({
@@ -115,57 +269,33 @@ export const useGameState = (gameId: string | null) => {
         description: 'Failed to load game data',
         variant: 'destructive',
       });
-    } finally {
-      setLoading(false);
+      dispatch({ type: 'loadFailed' });
     }
   };
 
-  const fetchGame = async () => {
-    if (!gameId) return;
-
-    const { data, error } = await supabase
-      .from('games')
-      .select('*')
-      .eq('id', gameId)
-      .single();
+  const presenceOf = (userId: string): PresenceStatus => state.presence[userId] ?? 'offline';
 
-    if (error) throw error;
-    setGame(data as GameState);
+  return {
+    ...state,
+    presenceOf,
+    refetch: fetchGameData,
   };
+};
 
-  const fetchPlayers = async () => {
-    if (!gameId) return;
-
-    const { data, error } = await supabase
-      .from('game_players')
-      .select('*')
-      .eq('game_id', gameId)
-      .order('joined_at', { ascending: true });
-
-    if (error) throw error;
-    setPlayers(data || []);
-  };
+export type GameStore = ReturnType<typeof useGameStore>;
 
-  const fetchCurrentRound = async () => {
-    if (!gameId) return;
+export const GameStateContext = createContext<GameStore | undefined>(undefined);
 
-    const { data, error } = await supabase
-      .from('rounds')
-      .select('*')
-      .eq('game_id', gameId)
-      .order('round_number', { ascending: false })
-      .limit(1)
-      .maybeSingle();
+export const useGameState = () => {
+  const context = useContext(GameStateContext);
+  if (context === undefined) {
+    throw new Error('useGameState must be used within a GameProvider');
+  }
+  return context;
+};
 
-    if (error) throw error;
-    setCurrentRound(data as Round | null);
-  };
+export const useGameSelector = <T>(selector: (store: GameStore) => T) => selector(useGameState());
 
-  return {
-    game,
-    players,
-    currentRound,
-    loading,
-    refetch: fetchGameData,
-  };
-};
+// Selectors shared by the game screens
+export const selectGuessers = (store: GameStore) =>
+  store.players.filter((p) => p.user_id !== store.currentRound?.vip_id);
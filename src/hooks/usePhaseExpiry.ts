@@ -0,0 +1,53 @@
+import { useEffect } from 'react';
+import { useGameActions } from '@/hooks/useGameActions';
+import type { Round } from '@/hooks/useGameState';
+
+// Deadline of whichever timed phase the round is in, if it has one
+export const currentPhaseDeadline = (round: Round | null) => {
+  switch (round?.status) {
+    case 'vip_ranking':
+      return round.ranking_deadline ?? null;
+    case 'player_guessing':
+      return round.guess_deadline ?? null;
+    case 'revealing':
+      return round.reveal_step_deadline ?? null;
+    default:
+      return null;
+  }
+};
+
+// Retries back off from 1s up to 30s
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+
+// Nudges the server when the current phase's deadline passes. The server
+// re-checks the deadline, so every mounted screen can safely do this. If the
+// server says the phase has not expired yet (the client clock runs ahead) or
+// cannot be reached, it tries again with backoff until the round moves on.
+export const usePhaseExpiry = (round: Round | null) => {
+  const { expirePhase } = useGameActions();
+  const deadline = currentPhaseDeadline(round);
+
+  useEffect(() => {
+    if (!round || !deadline) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+
+    const attempt = async (retry: number) => {
+      const result = await expirePhase(round.id);
+      if (cancelled || (result && result !== 'none')) return;
+
+      const delay = Math.min(RETRY_BASE_MS * 2 ** retry, RETRY_MAX_MS);
+      timer = setTimeout(() => attempt(retry + 1), delay);
+    };
+
+    const delay = new Date(deadline).getTime() - Date.now();
+    timer = setTimeout(() => attempt(0), Math.max(0, delay));
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [round?.id, round?.status, round?.reveal_index, deadline]);
+};
@@ -0,0 +1,58 @@
+import { useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useGameActions } from '@/hooks/useGameActions';
+import type { GameState, Player, PresenceStatus, Round } from '@/hooks/useGameState';
+
+// How long the VIP may be gone before someone else takes over
+export const VIP_GRACE_SECONDS = 90;
+
+// The server stops counting a player a minute after their last heartbeat
+const QUORUM_RECHECK_SECONDS = 65;
+
+// Keeps the game moving when players drop off: hands the VIP role on after
+// the grace period and re-checks the guess quorum once absent guessers no
+// longer count towards it. Every connected client runs this; the server
+// makes the resulting calls idempotent.
+export const usePresenceFailover = (
+  game: GameState | null,
+  players: Player[],
+  currentRound: Round | null,
+  presenceOf: (userId: string) => PresenceStatus
+) => {
+  const { user } = useAuth();
+  const { rotateVIP, checkGuessQuorum } = useGameActions();
+
+  // Until we show up in presence ourselves, everyone else looks offline too
+  const synced = !!user && presenceOf(user.id) !== 'offline';
+
+  const vipId = game?.current_vip_id ?? null;
+  const vipGone =
+    synced &&
+    game?.status === 'playing' &&
+    !!vipId &&
+    vipId !== user?.id &&
+    presenceOf(vipId) === 'offline';
+  const roundStatus = currentRound?.status;
+
+  useEffect(() => {
+    // Nothing for the VIP to do while guesses come in; wait for the reveal
+    if (!game || !vipId || !vipGone || roundStatus === 'player_guessing') return;
+
+    const timer = setTimeout(() => rotateVIP(game.id, vipId), VIP_GRACE_SECONDS * 1000);
+    return () => clearTimeout(timer);
+  }, [game?.id, vipId, vipGone, roundStatus]);
+
+  const absentGuessers = synced
+    ? players
+        .filter((p) => p.user_id !== currentRound?.vip_id && presenceOf(p.user_id) === 'offline')
+        .map((p) => p.user_id)
+        .join(',')
+    : '';
+
+  useEffect(() => {
+    if (!currentRound || roundStatus !== 'player_guessing' || !absentGuessers) return;
+
+    const timer = setTimeout(() => checkGuessQuorum(currentRound.id), QUORUM_RECHECK_SECONDS * 1000);
+    return () => clearTimeout(timer);
+  }, [currentRound?.id, roundStatus, absentGuessers]);
+};
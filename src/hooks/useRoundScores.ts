@@ -0,0 +1,71 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface RoundScore {
+  id: string;
+  round_id: string;
+  game_id: string;
+  user_id: string;
+  base_points: number;
+  bonus: number;
+  penalty: number;
+  total_after: number;
+  created_at?: string;
+}
+
+export const roundPoints = (score: RoundScore) =>
+  score.base_points + score.bonus + score.penalty;
+
+export const useRoundScores = (roundId: string | null) => {
+  const [scores, setScores] = useState<RoundScore[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!roundId) {
+      setScores([]);
+      setLoading(false);
+      return;
+    }
+
+    const fetchScores = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('round_scores')
+          .select('*')
+          .eq('round_id', roundId);
+
+        if (error) throw error;
+        setScores(data || []);
+      } catch (error) {
+        console.error('Error fetching round scores:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchScores();
+
+    // Ledger rows are written in one transaction when the round is scored
+    const channel = supabase
+      .channel(`round-scores-${roundId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'round_scores',
+          filter: `round_id=eq.${roundId}`,
+        },
+        () => {
+          fetchScores();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [roundId]);
+
+  return { scores, loading };
+};
@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export const useRoundSubmissions = (roundId: string | null) => {
+  const [submittedUserIds, setSubmittedUserIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!roundId) {
+      setSubmittedUserIds(new Set());
+      setLoading(false);
+      return;
+    }
+
+    const fetchSubmissions = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('round_submissions')
+          .select('user_id')
+          .eq('round_id', roundId);
+
+        if (error) throw error;
+        setSubmittedUserIds(new Set((data || []).map((s) => s.user_id)));
+      } catch (error) {
+        console.error('Error fetching submissions:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSubmissions();
+
+    const channel = supabase
+      .channel(`round-submissions-${roundId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'round_submissions',
+          filter: `round_id=eq.${roundId}`,
+        },
+        (payload) => {
+          const userId = (payload.new as { user_id: string }).user_id;
+          setSubmittedUserIds((prev) => new Set(prev).add(userId));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [roundId]);
+
+  return { submittedUserIds, loading };
+};
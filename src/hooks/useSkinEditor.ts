@@ -0,0 +1,175 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { skinFromRow, skinToRow, type EntitySkin } from '@/lib/skin';
+
+export interface SkinVersion {
+  id: string;
+  version: number;
+  published_at: string;
+  skin: EntitySkin;
+}
+
+const LOGO_BUCKET = 'entity-logos';
+
+// An entity's live skin, its unpublished draft and every published version,
+// with the actions the skin editor needs
+export const useSkinEditor = (entityId: string | undefined, userId: string | undefined) => {
+  const { toast } = useToast();
+  const [published, setPublished] = useState<EntitySkin | null>(null);
+  const [draft, setDraft] = useState<EntitySkin | null>(null);
+  const [history, setHistory] = useState<SkinVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSkins = async () => {
+    if (!entityId) return;
+
+    try {
+      const [{ data: live, error: liveError }, { data: versions, error: versionsError }] = await Promise.all([
+        supabase.from('entity_skins').select('*').eq('entity_id', entityId).maybeSingle(),
+        supabase
+          .from('entity_skin_versions')
+          .select('*')
+          .eq('entity_id', entityId)
+          .order('version', { ascending: false, nullsFirst: true }),
+      ]);
+
+      if (liveError) throw liveError;
+      if (versionsError) throw versionsError;
+
+      const draftRow = (versions || []).find((row) => !row.published_at);
+      setPublished(live ? skinFromRow(entityId, live) : null);
+      setDraft(draftRow ? skinFromRow(entityId, draftRow) : null);
+      setHistory(
+        (versions || [])
+          .filter((row) => row.published_at && row.version)
+          .map((row) => ({
+            id: row.id,
+            version: row.version!,
+            published_at: row.published_at!,
+            skin: skinFromRow(entityId, row),
+          }))
+      );
+    } catch (error) {
+      console.error('Error fetching skins:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load the skin',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!entityId) {
+      setLoading(false);
+      return;
+    }
+    fetchSkins();
+  }, [entityId]);
+
+  // Creates the draft or overwrites the existing one
+  const saveDraft = async (skin: EntitySkin) => {
+    if (!entityId) return false;
+
+    try {
+      const row = skinToRow(skin);
+      const { error } = draft
+        ? await supabase
+            .from('entity_skin_versions')
+            .update(row)
+            .eq('entity_id', entityId)
+            .is('published_at', null)
+        : await supabase
+            .from('entity_skin_versions')
+            .insert({ ...row, entity_id: entityId, created_by: userId ?? null });
+
+      if (error) throw error;
+
+      setDraft({ ...skin, id: entityId });
+      return true;
+    } catch (error) {
+      console.error('Error saving skin draft:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save the draft',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  // Makes the draft the live skin; returns the new version number
+  const publishDraft = async () => {
+    if (!entityId) return null;
+
+    try {
+      const { data, error } = await supabase.rpc('publish_skin_draft', { _entity_id: entityId });
+      if (error) throw error;
+
+      await fetchSkins();
+      return data;
+    } catch (error) {
+      console.error('Error publishing skin:', error);
+      toast({
+        title: 'Error',
+        description: (error as { message?: string }).message || 'Failed to publish the skin',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  const discardDraft = async () => {
+    if (!entityId) return false;
+
+    try {
+      const { error } = await supabase
+        .from('entity_skin_versions')
+        .delete()
+        .eq('entity_id', entityId)
+        .is('published_at', null);
+
+      if (error) throw error;
+
+      setDraft(null);
+      return true;
+    } catch (error) {
+      console.error('Error discarding skin draft:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to discard the draft',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  // Returns the logo's public URL, or null if the upload failed
+  const uploadLogo = async (file: File) => {
+    if (!entityId) return null;
+
+    try {
+      const extension = file.name.split('.').pop()?.toLowerCase() || 'png';
+      const path = `${entityId}/logo-${crypto.randomUUID()}.${extension}`;
+      const { error } = await supabase.storage
+        .from(LOGO_BUCKET)
+        .upload(path, file, { contentType: file.type });
+
+      if (error) throw error;
+      return supabase.storage.from(LOGO_BUCKET).getPublicUrl(path).data.publicUrl;
+    } catch (error) {
+      console.error('Error uploading logo:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to upload the logo',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  return { published, draft, history, loading, saveDraft, publishDraft, discardDraft, uploadLogo };
+};
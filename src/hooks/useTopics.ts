@@ -0,0 +1,396 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { normalizeName } from '@/lib/topics';
+import { ITEM_IMAGE_BUCKET, blobToDataUrl, localItemImages } from '@/lib/itemImages';
+import type { ImportPlanEntry, LibraryTopic } from '@/lib/topicTransfer';
+
+export interface TopicItem {
+  id: string;
+  name: string;
+  emoji?: string | null;
+  description?: string | null;
+  image_url?: string | null;
+}
+
+export interface TopicSummary {
+  id: string;
+  name: string;
+  is_editable: boolean;
+  created_at: string;
+  item_count: number;
+}
+
+export interface TopicInput {
+  // Omit to create a new topic
+  id?: string;
+  // null for a player's personal topic
+  entityId: string | null;
+  name: string;
+  // Left out for none
+  category?: string | null;
+  tags?: string[];
+  // In ranking order; new items carry a client-generated id
+  items: TopicItem[];
+  // Creates the topic already archived, for a topic played once and not kept
+  archived?: boolean;
+}
+
+export interface TopicSubmission {
+  id: string;
+  created_at: string;
+  topic: { id: string; name: string; category: string | null; items: string[] };
+}
+
+// The live (non-archived) topics in an entity's library
+export const useTopics = (entityId: string | undefined) => {
+  const { toast } = useToast();
+  const [topics, setTopics] = useState<TopicSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTopics = async () => {
+    if (!entityId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('topics')
+        .select('id, name, is_editable, created_at, topic_items(count)')
+        .eq('entity_id', entityId)
+        .is('archived_at', null)
+        .is('topic_items.round_id', null)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      setTopics(
+        (data || []).map((topic) => ({
+          id: topic.id,
+          name: topic.name,
+          is_editable: topic.is_editable,
+          created_at: topic.created_at,
+          item_count: topic.topic_items[0]?.count || 0,
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching topics:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load topics',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!entityId) {
+      setTopics([]);
+      setLoading(false);
+      return;
+    }
+    fetchTopics();
+  }, [entityId]);
+
+  return { topics, loading, refetch: fetchTopics };
+};
+
+// Writes the topic and replaces its items with the given list in one
+// transaction, returning the topic id. Items removed from a topic that has
+// been played are rejected by the database.
+const writeTopic = async ({ id, entityId, name, category, tags, items, archived }: TopicInput) => {
+  const { data, error } = await supabase.rpc('save_topic', {
+    _topic_id: id,
+    _entity_id: entityId ?? undefined,
+    _name: name.trim(),
+    _category: category ?? undefined,
+    _tags: tags ?? [],
+    _items: items.map((item) => ({
+      id: item.id,
+      name: item.name.trim(),
+      emoji: item.emoji || null,
+      description: item.description?.trim() || null,
+      image_url: item.image_url || null,
+    })),
+    _archived: archived,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+const saveErrorMessage = (error: unknown, name: string) => {
+  const { code, message } = error as { code?: string; message?: string };
+  return code === '23505' ? `A topic called "${name.trim()}" already exists` : message || 'Failed to save topic';
+};
+
+export const useTopicActions = () => {
+  const { toast } = useToast();
+
+  const loadTopic = async (topicId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('topics')
+        .select('id, name, entity_id, category, tags, topic_items(id, name, emoji, description, image_url, position)')
+        .eq('id', topicId)
+        .is('archived_at', null)
+        .is('topic_items.round_id', null)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      return {
+        id: data.id,
+        name: data.name,
+        entityId: data.entity_id,
+        category: data.category,
+        tags: data.tags,
+        items: [...data.topic_items]
+          .sort((a, b) => a.position - b.position)
+          .map(({ id, name, emoji, description, image_url }) => ({ id, name, emoji, description, image_url })),
+      };
+    } catch (error) {
+      console.error('Error loading topic:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load topic',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  // Returns the topic id, or null if saving failed
+  const saveTopic = async (input: TopicInput) => {
+    try {
+      return await writeTopic(input);
+    } catch (error) {
+      console.error('Error saving topic:', error);
+      toast({
+        title: 'Error',
+        description: saveErrorMessage(error, input.name),
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  // Every topic in the library with its items in order, for export and
+  // import dry runs
+  const fetchLibrary = async (entityId: string): Promise<LibraryTopic[] | null> => {
+    try {
+      const { data, error } = await supabase
+        .from('topics')
+        .select('id, name, topic_items(name, emoji, description, image_url, position)')
+        .eq('entity_id', entityId)
+        .is('archived_at', null)
+        .is('topic_items.round_id', null)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map((topic) => ({
+        id: topic.id,
+        name: topic.name,
+        items: [...topic.topic_items]
+          .sort((a, b) => a.position - b.position)
+          .map(({ name, emoji, description, image_url }) => ({ name, emoji, description, image_url })),
+      }));
+    } catch (error) {
+      console.error('Error fetching topic library:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load the topic library',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  // Applies the new and changed entries of an import plan, each in its own
+  // transaction. Items that keep their name keep their id and any media the
+  // file leaves out, and a changed topic keeps its category and tags, so past
+  // rounds on it stay intact.
+  // Returns the topics that failed with the reason for each.
+  const importTopics = async (entityId: string, plan: ImportPlanEntry[]) => {
+    const failures: { name: string; reason: string }[] = [];
+
+    for (const entry of plan) {
+      if (entry.status !== 'new' && entry.status !== 'changed') continue;
+
+      try {
+        const current = entry.existingId ? await loadTopic(entry.existingId) : null;
+        if (entry.existingId && !current) throw new Error('Could not load the existing topic');
+        const itemsByName = new Map((current?.items || []).map((item) => [normalizeName(item.name), item]));
+
+        await writeTopic({
+          id: entry.existingId,
+          entityId,
+          name: entry.record.name,
+          category: current?.category,
+          tags: current?.tags,
+          items: entry.record.items.map((item) => ({
+            ...(itemsByName.get(normalizeName(item.name)) ?? { id: crypto.randomUUID() }),
+            ...item,
+          })),
+        });
+      } catch (error) {
+        console.error('Error importing topic:', error);
+        failures.push({ name: entry.record.name, reason: saveErrorMessage(error, entry.record.name) });
+      }
+    }
+
+    return failures;
+  };
+
+  // Offers a player's topic to an entity's library for an admin to review
+  const submitTopic = async (topicId: string, entityId: string, userId: string) => {
+    try {
+      const { error } = await supabase
+        .from('topic_submissions')
+        .insert({ topic_id: topicId, entity_id: entityId, submitted_by: userId });
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error submitting topic:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to submit topic for review',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  // Stores a cropped item image under the entity's folder and returns its
+  // public URL, or null if the upload failed
+  const uploadItemImage = async (entityId: string, image: Blob) => {
+    try {
+      if (localItemImages) return await blobToDataUrl(image);
+
+      const path = `${entityId}/${crypto.randomUUID()}.jpg`;
+      const { error } = await supabase.storage
+        .from(ITEM_IMAGE_BUCKET)
+        .upload(path, image, { contentType: image.type });
+
+      if (error) throw error;
+      return supabase.storage.from(ITEM_IMAGE_BUCKET).getPublicUrl(path).data.publicUrl;
+    } catch (error) {
+      console.error('Error uploading item image:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to upload image',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  // Topics that have been played are archived rather than removed
+  const deleteTopic = async (topicId: string) => {
+    try {
+      const { data, error } = await supabase.rpc('delete_topic', { _topic_id: topicId });
+      if (error) throw error;
+
+      toast({
+        title: data === 'archived' ? 'Topic Archived' : 'Topic Deleted',
+        description:
+          data === 'archived'
+            ? 'It has been played before, so past rounds keep it'
+            : 'The topic has been removed',
+      });
+      return true;
+    } catch (error) {
+      console.error('Error deleting topic:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete topic',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  return { loadTopic, saveTopic, deleteTopic, fetchLibrary, importTopics, uploadItemImage, submitTopic };
+};
+
+// Topics players have submitted to an entity's library, awaiting review
+export const useTopicSubmissions = (entityId: string | undefined) => {
+  const { toast } = useToast();
+  const [submissions, setSubmissions] = useState<TopicSubmission[]>([]);
+
+  const fetchSubmissions = async () => {
+    if (!entityId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('topic_submissions')
+        .select('id, created_at, topics(id, name, category, topic_items(name, position))')
+        .eq('entity_id', entityId)
+        .eq('status', 'pending')
+        .is('topics.topic_items.round_id', null)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      setSubmissions(
+        (data || [])
+          .filter((submission) => submission.topics)
+          .map((submission) => ({
+            id: submission.id,
+            created_at: submission.created_at,
+            topic: {
+              id: submission.topics!.id,
+              name: submission.topics!.name,
+              category: submission.topics!.category,
+              items: [...submission.topics!.topic_items]
+                .sort((a, b) => a.position - b.position)
+                .map((item) => item.name),
+            },
+          }))
+      );
+    } catch (error) {
+      console.error('Error fetching topic submissions:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load submitted topics',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (!entityId) {
+      setSubmissions([]);
+      return;
+    }
+    fetchSubmissions();
+  }, [entityId]);
+
+  // Approving adds a copy of the topic to the library
+  const reviewSubmission = async (submissionId: string, approve: boolean) => {
+    try {
+      const { error } = await supabase.rpc('review_topic_submission', {
+        _submission_id: submissionId,
+        _approve: approve,
+      });
+
+      if (error) throw error;
+
+      setSubmissions((prev) => prev.filter((submission) => submission.id !== submissionId));
+      return true;
+    } catch (error) {
+      console.error('Error reviewing topic submission:', error);
+      toast({
+        title: 'Error',
+        description: (error as { message?: string }).message || 'Failed to review topic',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  return { submissions, reviewSubmission };
+};
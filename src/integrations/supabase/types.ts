@@ -14,6 +14,183 @@ export type Database = {
   }
   public: {
     Tables: {
+      entities: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          owner_id: string
+          skin: Json
+          slug: string
+          updated_at: string
+          visibility: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_id: string
+          skin?: Json
+          slug: string
+          updated_at?: string
+          visibility?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_id?: string
+          skin?: Json
+          slug?: string
+          updated_at?: string
+          visibility?: string
+        }
+        Relationships: []
+      }
+      entity_members: {
+        Row: {
+          entity_id: string
+          joined_at: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          entity_id: string
+          joined_at?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          entity_id?: string
+          joined_at?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "entity_members_entity_id_fkey"
+            columns: ["entity_id"]
+            isOneToOne: false
+            referencedRelation: "entities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      entity_skin_versions: {
+        Row: {
+          background_color: string | null
+          button_style: string
+          card_back: string
+          card_style: string
+          created_at: string
+          created_by: string | null
+          entity_id: string
+          font: string | null
+          id: string
+          logo_url: string | null
+          primary_color: string
+          published_at: string | null
+          secondary_color: string
+          updated_at: string
+          version: number | null
+          watermark: boolean
+        }
+        Insert: {
+          background_color?: string | null
+          button_style?: string
+          card_back?: string
+          card_style?: string
+          created_at?: string
+          created_by?: string | null
+          entity_id: string
+          font?: string | null
+          id?: string
+          logo_url?: string | null
+          primary_color: string
+          published_at?: string | null
+          secondary_color: string
+          updated_at?: string
+          version?: number | null
+          watermark?: boolean
+        }
+        Update: {
+          background_color?: string | null
+          button_style?: string
+          card_back?: string
+          card_style?: string
+          created_at?: string
+          created_by?: string | null
+          entity_id?: string
+          font?: string | null
+          id?: string
+          logo_url?: string | null
+          primary_color?: string
+          published_at?: string | null
+          secondary_color?: string
+          updated_at?: string
+          version?: number | null
+          watermark?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "entity_skin_versions_entity_id_fkey"
+            columns: ["entity_id"]
+            isOneToOne: false
+            referencedRelation: "entities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      entity_skins: {
+        Row: {
+          background_color: string | null
+          button_style: string
+          card_back: string
+          card_style: string
+          entity_id: string
+          font: string | null
+          logo_url: string | null
+          primary_color: string
+          secondary_color: string
+          updated_at: string
+          watermark: boolean
+        }
+        Insert: {
+          background_color?: string | null
+          button_style?: string
+          card_back?: string
+          card_style?: string
+          entity_id: string
+          font?: string | null
+          logo_url?: string | null
+          primary_color?: string
+          secondary_color?: string
+          updated_at?: string
+          watermark?: boolean
+        }
+        Update: {
+          background_color?: string | null
+          button_style?: string
+          card_back?: string
+          card_style?: string
+          entity_id?: string
+          font?: string | null
+          logo_url?: string | null
+          primary_color?: string
+          secondary_color?: string
+          updated_at?: string
+          watermark?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "entity_skins_entity_id_fkey"
+            columns: ["entity_id"]
+            isOneToOne: true
+            referencedRelation: "entities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       game_players: {
         Row: {
           game_id: string
@@ -56,12 +233,22 @@ export type Database = {
           created_at: string
           creator_id: string
           current_vip_id: string | null
+          entity_id: string | null
+          guess_quorum_percent: number
+          guess_timeout_seconds: number | null
           id: string
+          items_per_round: number | null
           penalty_all_wrong: number
           points_per_correct: number
+          ranked_positions: number | null
+          ranking_timeout_seconds: number | null
+          reveal_step_seconds: number | null
+          scoring_strategy: string
+          scoring_top_n: number
           status: string
           target_score: number
           updated_at: string
+          vip_predictability_bonus: number
         }
         Insert: {
           bonus_all_correct?: number
@@ -69,12 +256,22 @@ export type Database = {
           created_at?: string
           creator_id: string
           current_vip_id?: string | null
+          entity_id?: string | null
+          guess_quorum_percent?: number
+          guess_timeout_seconds?: number | null
           id?: string
+          items_per_round?: number | null
           penalty_all_wrong?: number
           points_per_correct?: number
+          ranked_positions?: number | null
+          ranking_timeout_seconds?: number | null
+          reveal_step_seconds?: number | null
+          scoring_strategy?: string
+          scoring_top_n?: number
           status?: string
           target_score?: number
           updated_at?: string
+          vip_predictability_bonus?: number
         }
         Update: {
           bonus_all_correct?: number
@@ -82,14 +279,32 @@ export type Database = {
           created_at?: string
           creator_id?: string
           current_vip_id?: string | null
+          entity_id?: string | null
+          guess_quorum_percent?: number
+          guess_timeout_seconds?: number | null
           id?: string
+          items_per_round?: number | null
           penalty_all_wrong?: number
           points_per_correct?: number
+          ranked_positions?: number | null
+          ranking_timeout_seconds?: number | null
+          reveal_step_seconds?: number | null
+          scoring_strategy?: string
+          scoring_top_n?: number
           status?: string
           target_score?: number
           updated_at?: string
+          vip_predictability_bonus?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "games_entity_id_fkey"
+            columns: ["entity_id"]
+            isOneToOne: false
+            referencedRelation: "entities"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       guesses: {
         Row: {
@@ -136,8 +351,35 @@ export type Database = {
           },
         ]
       }
+      player_presence: {
+        Row: {
+          game_id: string
+          last_seen_at: string
+          user_id: string
+        }
+        Insert: {
+          game_id: string
+          last_seen_at?: string
+          user_id: string
+        }
+        Update: {
+          game_id?: string
+          last_seen_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "player_presence_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
+          account_type: string
           avatar_url: string | null
           created_at: string
           id: string
@@ -145,6 +387,7 @@ export type Database = {
           username: string
         }
         Insert: {
+          account_type?: string
           avatar_url?: string | null
           created_at?: string
           id: string
@@ -152,6 +395,7 @@ export type Database = {
           username: string
         }
         Update: {
+          account_type?: string
           avatar_url?: string | null
           created_at?: string
           id?: string
@@ -160,6 +404,35 @@ export type Database = {
         }
         Relationships: []
       }
+      ranking_drafts: {
+        Row: {
+          item_ids: string[]
+          round_id: string
+          updated_at: string
+          vip_id: string
+        }
+        Insert: {
+          item_ids: string[]
+          round_id: string
+          updated_at?: string
+          vip_id: string
+        }
+        Update: {
+          item_ids?: string[]
+          round_id?: string
+          updated_at?: string
+          vip_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ranking_drafts_round_id_fkey"
+            columns: ["round_id"]
+            isOneToOne: true
+            referencedRelation: "rounds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       rankings: {
         Row: {
           created_at: string
@@ -199,33 +472,141 @@ export type Database = {
           },
         ]
       }
+      round_scores: {
+        Row: {
+          base_points: number
+          bonus: number
+          created_at: string
+          game_id: string
+          id: string
+          penalty: number
+          round_id: string
+          total_after: number
+          user_id: string
+        }
+        Insert: {
+          base_points?: number
+          bonus?: number
+          created_at?: string
+          game_id: string
+          id?: string
+          penalty?: number
+          round_id: string
+          total_after: number
+          user_id: string
+        }
+        Update: {
+          base_points?: number
+          bonus?: number
+          created_at?: string
+          game_id?: string
+          id?: string
+          penalty?: number
+          round_id?: string
+          total_after?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "round_scores_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "round_scores_round_id_fkey"
+            columns: ["round_id"]
+            isOneToOne: false
+            referencedRelation: "rounds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      round_submissions: {
+        Row: {
+          game_id: string
+          round_id: string
+          submitted_at: string
+          user_id: string
+        }
+        Insert: {
+          game_id: string
+          round_id: string
+          submitted_at?: string
+          user_id: string
+        }
+        Update: {
+          game_id?: string
+          round_id?: string
+          submitted_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "round_submissions_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "round_submissions_round_id_fkey"
+            columns: ["round_id"]
+            isOneToOne: false
+            referencedRelation: "rounds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       rounds: {
         Row: {
           created_at: string
+          dealt_item_ids: string[] | null
           game_id: string
+          guess_deadline: string | null
           id: string
+          ranked_positions: number | null
+          ranking_deadline: string | null
           reveal_index: number
+          reveal_step_deadline: string | null
           round_number: number
+          scoreboard_closed_at: string | null
+          scored_at: string | null
           status: string
           topic_id: string
           vip_id: string
         }
         Insert: {
           created_at?: string
+          dealt_item_ids?: string[] | null
           game_id: string
+          guess_deadline?: string | null
           id?: string
+          ranked_positions?: number | null
+          ranking_deadline?: string | null
           reveal_index?: number
+          reveal_step_deadline?: string | null
           round_number: number
+          scoreboard_closed_at?: string | null
+          scored_at?: string | null
           status?: string
           topic_id: string
           vip_id: string
         }
         Update: {
           created_at?: string
+          dealt_item_ids?: string[] | null
           game_id?: string
+          guess_deadline?: string | null
           id?: string
+          ranked_positions?: number | null
+          ranking_deadline?: string | null
           reveal_index?: number
+          reveal_step_deadline?: string | null
           round_number?: number
+          scoreboard_closed_at?: string | null
+          scored_at?: string | null
           status?: string
           topic_id?: string
           vip_id?: string
@@ -250,26 +631,45 @@ export type Database = {
       topic_items: {
         Row: {
           created_at: string
+          description: string | null
+          emoji: string | null
           id: string
+          image_url: string | null
           name: string
           position: number
+          round_id: string | null
           topic_id: string
         }
         Insert: {
           created_at?: string
+          description?: string | null
+          emoji?: string | null
           id?: string
+          image_url?: string | null
           name: string
           position: number
+          round_id?: string | null
           topic_id: string
         }
         Update: {
           created_at?: string
+          description?: string | null
+          emoji?: string | null
           id?: string
+          image_url?: string | null
           name?: string
           position?: number
+          round_id?: string | null
           topic_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "topic_items_round_id_fkey"
+            columns: ["round_id"]
+            isOneToOne: false
+            referencedRelation: "rounds"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "topic_items_topic_id_fkey"
             columns: ["topic_id"]
@@ -279,36 +679,214 @@ export type Database = {
           },
         ]
       }
+      topic_submissions: {
+        Row: {
+          created_at: string
+          entity_id: string
+          id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          submitted_by: string
+          topic_id: string
+        }
+        Insert: {
+          created_at?: string
+          entity_id: string
+          id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_by: string
+          topic_id: string
+        }
+        Update: {
+          created_at?: string
+          entity_id?: string
+          id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_by?: string
+          topic_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "topic_submissions_entity_id_fkey"
+            columns: ["entity_id"]
+            isOneToOne: false
+            referencedRelation: "entities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "topic_submissions_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       topics: {
         Row: {
+          archived_at: string | null
+          category: string | null
           created_at: string
           created_by: string | null
+          entity_id: string | null
           id: string
           is_editable: boolean
           name: string
+          tags: string[]
         }
         Insert: {
+          archived_at?: string | null
+          category?: string | null
           created_at?: string
           created_by?: string | null
+          entity_id?: string | null
           id?: string
           is_editable?: boolean
           name: string
+          tags?: string[]
         }
         Update: {
+          archived_at?: string | null
+          category?: string | null
           created_at?: string
           created_by?: string | null
+          entity_id?: string | null
           id?: string
           is_editable?: boolean
           name?: string
+          tags?: string[]
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "topics_entity_id_fkey"
+            columns: ["entity_id"]
+            isOneToOne: false
+            referencedRelation: "entities"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      advance_reveal: {
+        Args: { _from_index: number; _round_id: string }
+        Returns: number
+      }
+      apply_round_scores: {
+        Args: { _round_id: string; _scores: Json }
+        Returns: undefined
+      }
+      can_manage_entity_file: {
+        Args: { _object_name: string }
+        Returns: boolean
+      }
+      delete_topic: {
+        Args: { _topic_id: string }
+        Returns: string
+      }
+      expire_round_phase: {
+        Args: { _round_id: string }
+        Returns: string
+      }
+      is_entity_account: {
+        Args: never
+        Returns: boolean
+      }
+      is_entity_admin: {
+        Args: { _entity_id: string }
+        Returns: boolean
+      }
+      is_entity_member: {
+        Args: { _entity_id: string }
+        Returns: boolean
+      }
+      is_topic_reviewer: {
+        Args: { _topic_id: string }
+        Returns: boolean
+      }
+      is_valid_round_transition: {
+        Args: { _from: string; _to: string }
+        Returns: boolean
+      }
+      mark_player_seen: {
+        Args: { _game_id: string }
+        Returns: undefined
+      }
+      publish_skin_draft: {
+        Args: { _entity_id: string }
+        Returns: number
+      }
+      review_topic_submission: {
+        Args: { _approve: boolean; _submission_id: string }
+        Returns: string
+      }
+      rotate_vip: {
+        Args: { _from_vip_id: string; _game_id: string }
+        Returns: string
+      }
+      save_topic: {
+        Args: {
+          _archived?: boolean
+          _category?: string
+          _entity_id?: string
+          _items: Json
+          _name: string
+          _tags: string[]
+          _topic_id?: string
+        }
+        Returns: string
+      }
+      score_round: {
+        Args: { _round_id: string }
+        Returns: undefined
+      }
+      set_round_items: {
+        Args: { _names: string[]; _round_id: string }
+        Returns: {
+          created_at: string
+          id: string
+          name: string
+          position: number
+          round_id: string | null
+          topic_id: string
+        }[]
+      }
+      skin_blend: {
+        Args: { _alpha: number; _base: string; _tint: string }
+        Returns: string
+      }
+      skin_contrast: {
+        Args: { _a: string; _b: string }
+        Returns: number
+      }
+      skin_contrast_failures: {
+        Args: { _background: string; _primary: string; _secondary: string }
+        Returns: string[]
+      }
+      skin_foreground: {
+        Args: { _hex: string }
+        Returns: string
+      }
+      skin_luminance: {
+        Args: { _hex: string }
+        Returns: number
+      }
+      start_next_round: {
+        Args: { _round_id: string }
+        Returns: string
+      }
+      try_start_reveal: {
+        Args: { _round_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
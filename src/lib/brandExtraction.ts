@@ -0,0 +1,347 @@
+// Proposes an entity skin from brand files the admin uploads: the palette of a
+// logo image, or the colors, fonts and corner radii of a saved HTML/CSS page.
+// Everything runs on the file itself; nothing is fetched.
+
+import { loadImage } from '@/lib/itemImages';
+import {
+  SKIN_FONTS,
+  contrastRatio,
+  defaultSkin,
+  foregroundFor,
+  hexToHsl,
+  hslToHex,
+  type ButtonStyle,
+  type CardStyle,
+  type EntitySkin,
+} from '@/lib/skin';
+import { checkSkinContrast, skinPassesContrast } from '@/lib/skinContrast';
+
+export interface PaletteColor {
+  hex: string;
+  // Share of the sampled pixels or declarations, 0..1
+  weight: number;
+}
+
+export interface BrandAnalysis {
+  palette: PaletteColor[];
+  fonts: string[];
+  // Border radii in px; 9999 stands for fully round
+  radii: number[];
+  // A page background declared on html or body, if any
+  background?: string;
+}
+
+export interface ForegroundCheck {
+  color: string;
+  foreground: string;
+  ratio: number;
+}
+
+export interface BrandProposal {
+  skin: EntitySkin;
+  analysis: BrandAnalysis;
+  foregrounds: ForegroundCheck[];
+}
+
+export const BRAND_FILE_TYPES = 'image/*,.html,.htm,.css';
+
+const SAMPLE_SIZE = 96;
+const PALETTE_SIZE = 6;
+const FULLY_ROUND = 9999;
+// Minimum contrast for brand colors against the page, per WCAG non-text contrast
+const MIN_UI_CONTRAST = 3;
+
+const GENERIC_FONTS = new Set([
+  'serif',
+  'sans-serif',
+  'monospace',
+  'cursive',
+  'fantasy',
+  'system-ui',
+  'ui-sans-serif',
+  'ui-serif',
+  'ui-monospace',
+  'inherit',
+  'initial',
+  '-apple-system',
+  'blinkmacsystemfont',
+]);
+
+const NAMED_COLORS: Record<string, string> = {
+  white: '#ffffff',
+  black: '#000000',
+};
+
+const toHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map((channel) => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+
+// Median cut over RGB pixels: split the box with the widest channel range at
+// its median until there are enough boxes, then average each box
+export const quantizeColors = (pixels: number[][], count = PALETTE_SIZE): PaletteColor[] => {
+  if (pixels.length === 0) return [];
+
+  let boxes = [pixels];
+  while (boxes.length < count) {
+    const ranges = boxes.map((box) =>
+      [0, 1, 2].map((c) => {
+        const values = box.map((pixel) => pixel[c]);
+        return Math.max(...values) - Math.min(...values);
+      })
+    );
+    const widest = ranges
+      .map((range, index) => ({ index, range: Math.max(...range), channel: range.indexOf(Math.max(...range)) }))
+      .filter(({ index }) => boxes[index].length > 1)
+      .sort((a, b) => b.range - a.range)[0];
+
+    if (!widest || widest.range === 0) break;
+
+    // Cut where the channel value changes nearest the median, so runs of one
+    // flat color stay in the same box
+    const { channel } = widest;
+    const sorted = [...boxes[widest.index]].sort((a, b) => a[channel] - b[channel]);
+    const middle = Math.floor(sorted.length / 2);
+    let cut = 0;
+    for (let i = 1; i < sorted.length; i++) {
+      if (sorted[i][channel] !== sorted[i - 1][channel] && Math.abs(i - middle) < Math.abs(cut - middle)) cut = i;
+    }
+    boxes = [...boxes.slice(0, widest.index), sorted.slice(0, cut), sorted.slice(cut), ...boxes.slice(widest.index + 1)];
+  }
+
+  return boxes
+    .map((box) => {
+      const sum = box.reduce((acc, pixel) => [acc[0] + pixel[0], acc[1] + pixel[1], acc[2] + pixel[2]], [0, 0, 0]);
+      return {
+        hex: toHex(sum[0] / box.length, sum[1] / box.length, sum[2] / box.length),
+        weight: box.length / pixels.length,
+      };
+    })
+    .sort((a, b) => b.weight - a.weight);
+};
+
+// Samples a downscaled copy of the image, skipping transparent pixels
+export const paletteFromImage = async (src: string) => {
+  const image = await loadImage(src);
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Image analysis is not supported in this browser');
+
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+
+  const pixels: number[][] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] >= 128) pixels.push([data[i], data[i + 1], data[i + 2]]);
+  }
+
+  return quantizeColors(pixels);
+};
+
+const parseColor = (value: string) => {
+  const color = value.trim().toLowerCase();
+  if (NAMED_COLORS[color]) return NAMED_COLORS[color];
+
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? [...hex[1]].map((d) => d + d).join('') : hex[1];
+    return `#${digits}`;
+  }
+
+  const rgb = color.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)\s*(?:[,/]\s*([\d.]+%?))?\s*\)$/);
+  if (rgb) {
+    const alpha = rgb[4] ? parseFloat(rgb[4]) / (rgb[4].endsWith('%') ? 100 : 1) : 1;
+    if (alpha < 0.5) return null;
+    return toHex(Math.min(255, +rgb[1]), Math.min(255, +rgb[2]), Math.min(255, +rgb[3]));
+  }
+
+  return null;
+};
+
+const parseRadius = (value: string) => {
+  const first = value.trim().split(/\s+/)[0];
+  if (first.endsWith('%')) return parseFloat(first) >= 50 ? FULLY_ROUND : null;
+
+  const length = first.match(/^([\d.]+)(px|rem|em)?$/);
+  if (!length) return null;
+  const px = parseFloat(length[1]) * (length[2] === 'rem' || length[2] === 'em' ? 16 : 1);
+  return px >= 100 ? FULLY_ROUND : px;
+};
+
+// Colors in declarations whose property or custom property name mentions the
+// brand count extra, since a page's own palette is usually declared there
+const BRAND_NAME = /primary|brand|accent|theme|highlight/;
+
+export const analyzeStylesheet = (source: string): BrandAnalysis => {
+  const css = source.replace(/\/\*[\s\S]*?\*\//g, '');
+  const colorWeights = new Map<string, number>();
+  const fonts: string[] = [];
+  const radii: number[] = [];
+  let background: string | undefined;
+
+  const declaration = /([\w-]+)\s*:\s*([^;{}]+)/g;
+  for (const match of css.matchAll(declaration)) {
+    const property = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (property === 'font-family' || (property.startsWith('--') && property.includes('font'))) {
+      const family = value
+        .split(',')
+        .map((name) => name.trim().replace(/^["']|["']$/g, ''))
+        .find((name) => name && !GENERIC_FONTS.has(name.toLowerCase()) && !name.startsWith('var('));
+      if (family && /^[a-z][\w\s-]*$/i.test(family) && !fonts.includes(family)) fonts.push(family);
+    }
+
+    if (property.includes('radius')) {
+      const radius = parseRadius(value);
+      if (radius !== null) radii.push(radius);
+    }
+
+    const colors = value.match(/#[0-9a-f]{3,6}\b|rgba?\([^)]*\)|\b(?:white|black)\b/gi) || [];
+    colors.forEach((raw) => {
+      const hex = parseColor(raw);
+      if (!hex) return;
+      const weight = BRAND_NAME.test(property) ? 3 : 1;
+      colorWeights.set(hex, (colorWeights.get(hex) ?? 0) + weight);
+    });
+  }
+
+  const pageBackground = css.match(/(?:^|[},\s])(?:html|body)\s*\{[^}]*background(?:-color)?\s*:\s*([^;}]+)/i);
+  if (pageBackground) {
+    background = parseColor(pageBackground[1].trim().split(/\s+/)[0]) ?? undefined;
+  }
+
+  const total = [...colorWeights.values()].reduce((sum, weight) => sum + weight, 0);
+  const palette = [...colorWeights.entries()]
+    .map(([hex, weight]) => ({ hex, weight: weight / total }))
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, PALETTE_SIZE * 2);
+
+  return { palette, fonts, radii, background };
+};
+
+// Pulls the <style> blocks and inline styles out of a saved page
+export const analyzeHtml = (html: string) => {
+  const styles = [...html.matchAll(/<style[^>]*>([\s\S]*?)<\/style>/gi)].map((match) => match[1]);
+  const inline = [...html.matchAll(/style\s*=\s*"([^"]*)"/gi)].map((match) => `x{${match[1]}}`);
+  const themeColor = html.match(/<meta[^>]+name=["']theme-color["'][^>]+content=["']([^"']+)["']/i);
+  const theme = themeColor ? `x{--theme-color:${themeColor[1]}}` : '';
+  const bodyStyle = html.match(/<body[^>]*\sstyle\s*=\s*"([^"]*)"/i);
+  const body = bodyStyle ? `body{${bodyStyle[1]}}` : '';
+  return analyzeStylesheet([...styles, ...inline, theme, body].join('\n'));
+};
+
+// Greys, near-white and near-black make poor brand colors
+const isNeutral = (hex: string) => {
+  const { s, l } = hexToHsl(hex);
+  return s < 15 || l < 8 || l > 94;
+};
+
+const hueDistance = (a: string, b: string) => {
+  const difference = Math.abs(hexToHsl(a).h - hexToHsl(b).h);
+  return Math.min(difference, 360 - difference);
+};
+
+// Darkens or lightens the color until it stands out from the background
+export const ensureContrast = (hex: string, background: string, minimum = MIN_UI_CONTRAST) => {
+  if (contrastRatio(hex, background) >= minimum) return hex;
+
+  const { h, s, l } = hexToHsl(hex);
+  // Darken on light backgrounds, lighten on dark ones
+  const direction = contrastRatio(background, '#000000') > contrastRatio(background, '#ffffff') ? -1 : 1;
+  for (let lightness = l; lightness >= 0 && lightness <= 100; lightness += direction * 2) {
+    const candidate = hslToHex(h, s, lightness);
+    if (contrastRatio(candidate, background) >= minimum) return candidate;
+  }
+  return direction < 0 ? '#000000' : '#ffffff';
+};
+
+// The text the app renders on the color, and how well it reads
+export const checkForeground = (color: string): ForegroundCheck => {
+  const foreground = foregroundFor(color);
+  return { color, foreground, ratio: contrastRatio(color, foreground) };
+};
+
+// Applies the contrast report's suggestions until the skin passes the same
+// checks as publishing. Fixing one pairing can upset another, so this goes
+// round a few times rather than once.
+const MAX_CONTRAST_PASSES = 5;
+
+const applySuggestions = (skin: EntitySkin) => {
+  let fitted = skin;
+  for (let pass = 0; pass < MAX_CONTRAST_PASSES; pass++) {
+    const failure = checkSkinContrast(fitted).find((check) => !check.passes && check.suggestion);
+    if (!failure) break;
+    fitted = { ...fitted, [failure.suggestion!.token]: failure.suggestion!.color };
+  }
+  return fitted;
+};
+
+// A mid-tone page background can leave no color that reads on it, so when
+// the suggestions don't converge the app's own background is used instead
+const fitContrast = (skin: EntitySkin) => {
+  const fitted = applySuggestions(skin);
+  if (skinPassesContrast(fitted) || !skin.backgroundColor) return fitted;
+  return applySuggestions({ ...skin, backgroundColor: undefined });
+};
+
+const shapesFor = (radii: number[]): { buttonStyle: ButtonStyle; cardStyle: CardStyle } | undefined => {
+  if (radii.length === 0) return undefined;
+
+  const sorted = [...radii].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const hasPill = radii.some((radius) => radius === FULLY_ROUND);
+  return {
+    buttonStyle: hasPill ? 'pill' : median <= 1 ? 'sharp' : 'rounded',
+    cardStyle: median <= 1 ? 'sharp' : 'rounded',
+  };
+};
+
+// Matches detected families to the bundled fonts, preferring ones we offer
+const pickFont = (fonts: string[]) =>
+  fonts
+    .map((font) => SKIN_FONTS.find((offered) => offered.toLowerCase() === font.toLowerCase()))
+    .find(Boolean) ?? fonts[0];
+
+export const proposeSkin = (id: string, analysis: BrandAnalysis): BrandProposal => {
+  const brand = analysis.palette.filter((color) => !isNeutral(color.hex));
+  const background = analysis.background;
+  const against = background ?? '#ffffff';
+
+  const primary = brand[0]?.hex ?? defaultSkin.primaryColor;
+  const secondary =
+    brand.find((color) => hueDistance(color.hex, primary) >= 30)?.hex ?? brand[1]?.hex ?? defaultSkin.secondaryColor;
+
+  const skin = fitContrast({
+    id,
+    primaryColor: ensureContrast(primary, against),
+    secondaryColor: ensureContrast(secondary, against),
+    backgroundColor: background,
+    font: pickFont(analysis.fonts),
+    shapes: shapesFor(analysis.radii) ?? defaultSkin.shapes,
+  });
+
+  const checked = [skin.primaryColor, skin.secondaryColor, ...(skin.backgroundColor ? [skin.backgroundColor] : [])];
+  return { skin, analysis, foregrounds: checked.map(checkForeground) };
+};
+
+export const isImageFile = (file: File) => file.type.startsWith('image/');
+
+// Reads an uploaded logo or saved page and proposes a skin for the entity
+export const extractBrand = async (id: string, file: File): Promise<BrandProposal> => {
+  if (isImageFile(file)) {
+    const url = URL.createObjectURL(file);
+    try {
+      const palette = await paletteFromImage(url);
+      return proposeSkin(id, { palette, fonts: [], radii: [] });
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  const text = await file.text();
+  const isHtml = /\.html?$/i.test(file.name) || /<html|<head|<style/i.test(text);
+  return proposeSkin(id, isHtml ? analyzeHtml(text) : analyzeStylesheet(text));
+};
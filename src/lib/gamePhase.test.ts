@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { resolveGamePhase, type GamePhaseInput, type GamePhaseScreen } from '@/lib/gamePhase';
+import type { RoundStatus } from '@/lib/roundStateMachine';
+
+const VIP = 'vip';
+const PLAYER = 'player';
+const NEXT_VIP = 'next-vip';
+
+const round = (status: RoundStatus, extra: { scoreboard_closed_at?: string } = {}) => ({
+  status,
+  vip_id: VIP,
+  scoreboard_closed_at: null,
+  ...extra,
+});
+
+const cases: [string, GamePhaseInput, GamePhaseScreen][] = [
+  ['a finished game', { gameStatus: 'finished', currentVipId: VIP, round: round('revealing'), userId: PLAYER }, 'game-over'],
+  ['a game that has not started', { gameStatus: 'waiting', currentVipId: VIP, round: null, userId: VIP }, 'lobby'],
+  ['the VIP before the first round', { gameStatus: 'playing', currentVipId: VIP, round: null, userId: VIP }, 'topic-selection'],
+  ['a player before the first round', { gameStatus: 'playing', currentVipId: VIP, round: null, userId: PLAYER }, 'lobby'],
+  [
+    'the VIP while the topic is chosen',
+    { gameStatus: 'playing', currentVipId: VIP, round: round('topic_selection'), userId: VIP },
+    'topic-selection',
+  ],
+  ['the VIP ranking', { gameStatus: 'playing', currentVipId: VIP, round: round('vip_ranking'), userId: VIP }, 'vip-ranking'],
+  [
+    'a player while the VIP ranks',
+    { gameStatus: 'playing', currentVipId: VIP, round: round('vip_ranking'), userId: PLAYER },
+    'spectating',
+  ],
+  [
+    'a player guessing',
+    { gameStatus: 'playing', currentVipId: VIP, round: round('player_guessing'), userId: PLAYER },
+    'guessing',
+  ],
+  [
+    'the VIP while players guess',
+    { gameStatus: 'playing', currentVipId: VIP, round: round('player_guessing'), userId: VIP },
+    'spectating',
+  ],
+  ['everyone during the reveal', { gameStatus: 'playing', currentVipId: VIP, round: round('revealing'), userId: PLAYER }, 'reveal'],
+  [
+    'a player after the round',
+    { gameStatus: 'playing', currentVipId: VIP, round: round('complete'), userId: PLAYER },
+    'scoreboard',
+  ],
+  [
+    'the new VIP after the role moved on mid-reveal',
+    { gameStatus: 'playing', currentVipId: NEXT_VIP, round: round('complete'), userId: NEXT_VIP },
+    'scoreboard',
+  ],
+  [
+    'a player after the role moved on mid-reveal',
+    { gameStatus: 'playing', currentVipId: NEXT_VIP, round: round('complete'), userId: PLAYER },
+    'scoreboard',
+  ],
+  [
+    'the new VIP once the scoreboard is closed',
+    {
+      gameStatus: 'playing',
+      currentVipId: NEXT_VIP,
+      round: round('complete', { scoreboard_closed_at: '2025-11-24T09:00:00Z' }),
+      userId: NEXT_VIP,
+    },
+    'topic-selection',
+  ],
+  [
+    'a player once the scoreboard is closed',
+    {
+      gameStatus: 'playing',
+      currentVipId: NEXT_VIP,
+      round: round('complete', { scoreboard_closed_at: '2025-11-24T09:00:00Z' }),
+      userId: PLAYER,
+    },
+    'lobby',
+  ],
+  ['a signed-out viewer', { gameStatus: 'playing', currentVipId: VIP, round: null, userId: null }, 'lobby'],
+];
+
+describe('resolveGamePhase', () => {
+  it.each(cases)('shows %s the right screen', (_label, input, screen) => {
+    expect(resolveGamePhase(input)).toBe(screen);
+  });
+});
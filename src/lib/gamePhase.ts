@@ -0,0 +1,49 @@
+// Which screen each player sees, derived purely from the game's state.
+// GamePhaseRouter renders the result, so no screen has to redirect itself.
+
+import type { RoundStatus } from '@/lib/roundStateMachine';
+
+export type GamePhaseScreen =
+  | 'lobby'
+  | 'topic-selection'
+  | 'vip-ranking'
+  | 'guessing'
+  | 'spectating'
+  | 'reveal'
+  | 'scoreboard'
+  | 'game-over';
+
+export interface GamePhaseInput {
+  gameStatus: 'waiting' | 'playing' | 'finished';
+  currentVipId: string | null;
+  round: { status: RoundStatus; vip_id: string; scoreboard_closed_at?: string | null } | null;
+  userId: string | null;
+}
+
+export const resolveGamePhase = ({ gameStatus, currentVipId, round, userId }: GamePhaseInput): GamePhaseScreen => {
+  if (gameStatus === 'finished') return 'game-over';
+
+  const isVIP = !!userId && userId === currentVipId;
+
+  // Between rounds: the scoreboard stays up until someone starts the next
+  // round, even if the VIP role moved on during the reveal
+  const betweenRounds = !round || (round.status === 'complete' && !!round.scoreboard_closed_at);
+
+  if (betweenRounds || round.status === 'topic_selection') {
+    if (gameStatus === 'waiting') return 'lobby';
+    return isVIP ? 'topic-selection' : 'lobby';
+  }
+
+  const isRoundVIP = !!userId && userId === round.vip_id;
+
+  switch (round.status) {
+    case 'vip_ranking':
+      return isRoundVIP ? 'vip-ranking' : 'spectating';
+    case 'player_guessing':
+      return isRoundVIP ? 'spectating' : 'guessing';
+    case 'revealing':
+      return 'reveal';
+    case 'complete':
+      return 'scoreboard';
+  }
+};
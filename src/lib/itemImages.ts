@@ -0,0 +1,69 @@
+// Item images are cropped to a square in the browser before upload, so every
+// thumbnail and reveal card shows the same framing.
+
+export const ITEM_IMAGE_BUCKET = 'topic-item-images';
+export const ITEM_IMAGE_SIZE = 256;
+export const MAX_ITEM_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Without Storage (e.g. a local Supabase without the bucket) images are kept
+// inline as data URLs instead
+export const localItemImages = import.meta.env.VITE_LOCAL_ITEM_IMAGES === 'true';
+
+export interface SquareCrop {
+  // 1 fits the shorter side; larger values zoom in
+  zoom: number;
+  // Centre of the crop as a fraction of the image, 0..1
+  x: number;
+  y: number;
+}
+
+export const defaultCrop: SquareCrop = { zoom: 1, x: 0.5, y: 0.5 };
+
+// The crop in source pixels, kept inside the image
+export const cropRect = (width: number, height: number, { zoom, x, y }: SquareCrop) => {
+  const side = Math.min(width, height) / Math.max(1, zoom);
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+
+  return {
+    sx: clamp(x * width - side / 2, width - side),
+    sy: clamp(y * height - side / 2, height - side),
+    side,
+  };
+};
+
+export const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not read that image'));
+    image.src = src;
+  });
+
+export const cropToSquare = (image: HTMLImageElement, crop: SquareCrop) =>
+  new Promise<Blob>((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = ITEM_IMAGE_SIZE;
+    canvas.height = ITEM_IMAGE_SIZE;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      reject(new Error('Image cropping is not supported in this browser'));
+      return;
+    }
+
+    const { sx, sy, side } = cropRect(image.naturalWidth, image.naturalHeight, crop);
+    context.drawImage(image, sx, sy, side, side, 0, 0, ITEM_IMAGE_SIZE, ITEM_IMAGE_SIZE);
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not crop that image'))),
+      'image/jpeg',
+      0.85
+    );
+  });
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
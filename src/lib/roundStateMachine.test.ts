@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { canTransition, initialRoundStatus, transitionRound } from '@/lib/roundStateMachine';
+
+describe('transitionRound', () => {
+  it('walks a round through every phase', () => {
+    let round = { status: initialRoundStatus, reveal_index: 0 };
+    expect(round.status).toBe('vip_ranking');
+
+    round = { ...round, ...transitionRound(round, { type: 'SUBMIT_RANKING', rankedCount: 3 }) };
+    expect(round).toEqual({ status: 'player_guessing', reveal_index: 0 });
+
+    round = { ...round, ...transitionRound(round, { type: 'START_REVEAL' }) };
+    expect(round).toEqual({ status: 'revealing', reveal_index: 1 });
+
+    round = { ...round, ...transitionRound(round, { type: 'REVEAL_NEXT', totalItems: 3 }) };
+    expect(round).toEqual({ status: 'revealing', reveal_index: 2 });
+
+    round = { ...round, ...transitionRound(round, { type: 'COMPLETE' }) };
+    expect(round.status).toBe('complete');
+  });
+
+  it('refuses events from the wrong status', () => {
+    expect(() => transitionRound({ status: 'vip_ranking', reveal_index: 0 }, { type: 'START_REVEAL' })).toThrow(
+      'Cannot start reveal while round is vip_ranking'
+    );
+    expect(() => transitionRound({ status: 'complete', reveal_index: 3 }, { type: 'COMPLETE' })).toThrow();
+  });
+
+  it('refuses an empty ranking', () => {
+    expect(() =>
+      transitionRound({ status: 'vip_ranking', reveal_index: 0 }, { type: 'SUBMIT_RANKING', rankedCount: 0 })
+    ).toThrow('Ranking is empty');
+  });
+
+  it('stops revealing after the last item', () => {
+    expect(() =>
+      transitionRound({ status: 'revealing', reveal_index: 3 }, { type: 'REVEAL_NEXT', totalItems: 3 })
+    ).toThrow('Every item has been revealed');
+  });
+});
+
+describe('canTransition', () => {
+  it.each([
+    ['topic_selection', 'vip_ranking', true],
+    ['vip_ranking', 'player_guessing', true],
+    ['player_guessing', 'revealing', true],
+    ['revealing', 'complete', true],
+    ['revealing', 'revealing', true],
+    ['vip_ranking', 'revealing', false],
+    ['complete', 'topic_selection', false],
+    ['revealing', 'player_guessing', false],
+  ] as const)('%s -> %s is %s', (from, to, allowed) => {
+    expect(canTransition(from, to)).toBe(allowed);
+  });
+});
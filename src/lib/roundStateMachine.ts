@@ -0,0 +1,85 @@
+// Round lifecycle shared by every action in useGameActions. The allowed
+// transitions are mirrored by the enforce_round_transition trigger, so the
+// database rejects anything this module would.
+
+export type RoundStatus = 'topic_selection' | 'vip_ranking' | 'player_guessing' | 'revealing' | 'complete';
+
+export type RoundEvent =
+  | { type: 'SELECT_TOPIC' }
+  | { type: 'SUBMIT_RANKING'; rankedCount: number }
+  | { type: 'START_REVEAL' }
+  | { type: 'REVEAL_NEXT'; totalItems: number }
+  | { type: 'COMPLETE' };
+
+export interface RoundSnapshot {
+  status: RoundStatus;
+  reveal_index: number;
+}
+
+export interface RoundPatch {
+  status: RoundStatus;
+  reveal_index?: number;
+}
+
+interface Transition<E extends RoundEvent> {
+  from: RoundStatus;
+  to: RoundStatus;
+  // Returns a reason when the event is not allowed right now
+  guard?: (round: RoundSnapshot, event: E) => string | null;
+  // Extra columns written alongside the status change
+  effect?: (round: RoundSnapshot, event: E) => Omit<RoundPatch, 'status'>;
+}
+
+type TransitionTable = {
+  [K in RoundEvent['type']]: Transition<Extract<RoundEvent, { type: K }>>;
+};
+
+export const roundTransitions: TransitionTable = {
+  SELECT_TOPIC: {
+    from: 'topic_selection',
+    to: 'vip_ranking',
+  },
+  SUBMIT_RANKING: {
+    from: 'vip_ranking',
+    to: 'player_guessing',
+    guard: (_round, event) => (event.rankedCount > 0 ? null : 'Ranking is empty'),
+  },
+  START_REVEAL: {
+    from: 'player_guessing',
+    to: 'revealing',
+    effect: () => ({ reveal_index: 1 }),
+  },
+  REVEAL_NEXT: {
+    from: 'revealing',
+    to: 'revealing',
+    guard: (round, event) =>
+      round.reveal_index < event.totalItems ? null : 'Every item has been revealed',
+    effect: (round) => ({ reveal_index: round.reveal_index + 1 }),
+  },
+  COMPLETE: {
+    from: 'revealing',
+    to: 'complete',
+  },
+};
+
+// Status a new round is inserted with once the VIP has picked a topic
+export const initialRoundStatus: RoundStatus = roundTransitions.SELECT_TOPIC.to;
+
+export const canTransition = (from: RoundStatus, to: RoundStatus) =>
+  from === to || Object.values(roundTransitions).some((t) => t.from === from && t.to === to);
+
+export const transitionRound = (round: RoundSnapshot, event: RoundEvent): RoundPatch => {
+  const transition = roundTransitions[event.type] as Transition<RoundEvent>;
+
+  if (round.status !== transition.from) {
+    throw new Error(`Cannot ${event.type.toLowerCase().replace(/_/g, ' ')} while round is ${round.status}`);
+  }
+
+  const reason = transition.guard?.(round, event);
+  if (reason) throw new Error(reason);
+
+  return {
+    status: transition.to,
+    ...transition.effect?.(round, event),
+  };
+};
@@ -0,0 +1,3 @@
+// The scoring strategies are shared with the score-round edge function, so
+// they live with the functions where the deploy can bundle them
+export * from '../../supabase/functions/_shared/scoring/index.ts';
@@ -0,0 +1,240 @@
+// Entity skins restyle the app by overriding the design tokens declared in
+// index.css. Colors are stored as hex and converted to the "H S% L%" triplets
+// the tokens use.
+
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ButtonStyle = 'rounded' | 'sharp' | 'pill';
+export type CardStyle = 'rounded' | 'sharp';
+export type CardBack = 'question' | 'logo' | 'pattern';
+
+export interface EntitySkin {
+  id: string;
+  primaryColor: string;
+  secondaryColor: string;
+  // Page and card background; the app's own when unset
+  backgroundColor?: string;
+  logo?: string;
+  font?: string;
+  shapes?: {
+    buttonStyle: ButtonStyle;
+    cardStyle: CardStyle;
+  };
+  // Faint logo in the corner of cards
+  watermark?: boolean;
+  // Face-down reveal cards
+  cardBack?: CardBack;
+}
+
+// Passes every check in lib/skinContrast, so an admin who only changes the
+// logo or font can publish straight away
+export const defaultSkin: EntitySkin = {
+  id: 'default',
+  primaryColor: '#9c38ff',
+  secondaryColor: '#007b94',
+  shapes: {
+    buttonStyle: 'rounded',
+    cardStyle: 'rounded',
+  },
+};
+
+// The tokens a skin may override; clearing them restores index.css
+export const SKIN_VARIABLES = [
+  '--primary',
+  '--primary-foreground',
+  '--secondary',
+  '--secondary-foreground',
+  '--ring',
+  '--background',
+  '--foreground',
+  '--card',
+  '--card-foreground',
+  '--radius',
+  '--font-sans',
+];
+
+// --radius follows the card style so every shadcn component picks up the
+// brand's corners
+const cardRadius: Record<CardStyle, string> = {
+  rounded: '0.75rem',
+  sharp: '0rem',
+};
+
+// The themed components add these on top of --radius. They use fixed radii
+// rather than rounded-md and friends, which are derived from --radius, so a
+// sharp card style leaves rounded buttons rounded.
+export const cardRadiusClass: Record<CardStyle, string> = {
+  rounded: 'rounded-xl',
+  sharp: 'rounded-none',
+};
+
+export const buttonRadiusClass: Record<ButtonStyle, string> = {
+  rounded: 'rounded-[0.375rem]',
+  sharp: 'rounded-none',
+  pill: 'rounded-full',
+};
+
+// Fonts offered in the skin editor, all served by Google Fonts
+export const SKIN_FONTS = [
+  'Inter',
+  'Poppins',
+  'Montserrat',
+  'Roboto',
+  'Open Sans',
+  'Lato',
+  'Nunito',
+  'Raleway',
+  'Space Grotesk',
+  'DM Sans',
+  'Oswald',
+  'Bebas Neue',
+  'Playfair Display',
+  'Merriweather',
+  'Lobster',
+];
+
+// Matches the light and dark foregrounds in index.css
+const LIGHT_FOREGROUND = '#f8fafc';
+const DARK_FOREGROUND = '#0f172a';
+
+export const isHexColor = (value: string) => /^#[0-9a-f]{6}$/i.test(value);
+
+export const hexToRgb = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+};
+
+export const hexToHsl = (hex: string) => {
+  const { r, g, b } = hexToRgb(hex);
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const l = (max + min) / 2;
+  const d = max - min;
+
+  let h = 0;
+  let s = 0;
+  if (d > 0) {
+    s = d / (1 - Math.abs(2 * l - 1));
+    if (max === red) h = ((green - blue) / d) % 6;
+    else if (max === green) h = (blue - red) / d + 2;
+    else h = (red - green) / d + 4;
+    h = (h * 60 + 360) % 360;
+  }
+
+  return { h: Math.round(h), s: Math.round(s * 100), l: Math.round(l * 100) };
+};
+
+export const hslToken = (hex: string) => {
+  const { h, s, l } = hexToHsl(hex);
+  return `${h} ${s}% ${l}%`;
+};
+
+// WCAG relative luminance, 0 for black to 1 for white
+export const relativeLuminance = (hex: string) => {
+  const { r, g, b } = hexToRgb(hex);
+  const [red, green, blue] = [r, g, b].map((channel) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * red + 0.7152 * green + 0.0722 * blue;
+};
+
+export const hslToHex = (h: number, s: number, l: number) => {
+  const saturation = s / 100;
+  const lightness = l / 100;
+  const a = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const value = lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255)
+      .toString(16)
+      .padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+};
+
+// WCAG contrast ratio between two colors, from 1 to 21
+export const contrastRatio = (a: string, b: string) => {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+// Text on a brand color is light or dark, whichever reads better
+export const foregroundFor = (hex: string) => (relativeLuminance(hex) > 0.179 ? DARK_FOREGROUND : LIGHT_FOREGROUND);
+
+export const skinCssVariables = (skin: EntitySkin): Record<string, string> => {
+  const variables: Record<string, string> = {
+    '--primary': hslToken(skin.primaryColor),
+    '--primary-foreground': hslToken(foregroundFor(skin.primaryColor)),
+    '--secondary': hslToken(skin.secondaryColor),
+    '--secondary-foreground': hslToken(foregroundFor(skin.secondaryColor)),
+    '--ring': hslToken(skin.primaryColor),
+    '--radius': cardRadius[skin.shapes?.cardStyle ?? 'rounded'],
+  };
+
+  if (skin.backgroundColor) {
+    const background = hslToken(skin.backgroundColor);
+    const foreground = hslToken(foregroundFor(skin.backgroundColor));
+    Object.assign(variables, {
+      '--background': background,
+      '--foreground': foreground,
+      '--card': background,
+      '--card-foreground': foreground,
+    });
+  }
+
+  if (skin.font) {
+    variables['--font-sans'] = `"${skin.font}", ui-sans-serif, system-ui, sans-serif`;
+  }
+
+  return variables;
+};
+
+// Google Fonts serves most brand fonts; unknown families just fall back
+export const fontStylesheetUrl = (font: string) =>
+  `https://fonts.googleapis.com/css2?family=${encodeURIComponent(font).replace(/%20/g, '+')}:wght@400;600;700&display=swap`;
+
+// Adds the font's stylesheet to the page once
+export const loadFontStylesheet = (font: string) => {
+  const id = `skin-font-${font.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+  if (document.getElementById(id)) return;
+
+  const link = document.createElement('link');
+  link.id = id;
+  link.rel = 'stylesheet';
+  link.href = fontStylesheetUrl(font);
+  document.head.appendChild(link);
+};
+
+type SkinRow = Pick<
+  Tables<'entity_skins'>,
+  'primary_color' | 'secondary_color' | 'background_color' | 'logo_url' | 'font' | 'button_style' | 'card_style' | 'watermark' | 'card_back'
+>;
+
+export const skinFromRow = (id: string, row: SkinRow): EntitySkin => ({
+  id,
+  primaryColor: row.primary_color,
+  secondaryColor: row.secondary_color,
+  backgroundColor: row.background_color ?? undefined,
+  logo: row.logo_url ?? undefined,
+  font: row.font ?? undefined,
+  shapes: {
+    buttonStyle: row.button_style as ButtonStyle,
+    cardStyle: row.card_style as CardStyle,
+  },
+  watermark: row.watermark,
+  cardBack: row.card_back as CardBack,
+});
+
+export const skinToRow = (skin: EntitySkin): SkinRow => ({
+  primary_color: skin.primaryColor,
+  secondary_color: skin.secondaryColor,
+  background_color: skin.backgroundColor ?? null,
+  logo_url: skin.logo ?? null,
+  font: skin.font ?? null,
+  button_style: skin.shapes?.buttonStyle ?? 'rounded',
+  card_style: skin.shapes?.cardStyle ?? 'rounded',
+  watermark: skin.watermark ?? false,
+  card_back: skin.cardBack ?? 'question',
+});
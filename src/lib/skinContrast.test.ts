@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { defaultSkin, type EntitySkin } from '@/lib/skin';
+import { checkSkinContrast, skinPassesContrast } from '@/lib/skinContrast';
+
+const migrations = import.meta.glob<string>('/supabase/migrations/*.sql', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+});
+
+// The checks in the newest skin_contrast_failures, as [label, minimum]
+const sqlChecks = () => {
+  const [source] = Object.keys(migrations)
+    .sort()
+    .reverse()
+    .map((path) => migrations[path].split('FUNCTION public.skin_contrast_failures(')[1])
+    .filter(Boolean);
+  const body = source.split('$$')[1];
+
+  return [...body.matchAll(/<\s*([\d.]+)\s+THEN\s+_failures := array_append\(_failures, '([^']+)'\)/g)].map(
+    ([, minimum, label]) => [label, Number(minimum)]
+  );
+};
+
+const skin = (colors: Partial<EntitySkin>): EntitySkin => ({ ...defaultSkin, ...colors });
+
+describe('checkSkinContrast', () => {
+  it('runs the same checks as skin_contrast_failures', () => {
+    const checks = checkSkinContrast(defaultSkin).map((check) => [check.label, check.minimum]);
+    expect(checks).toEqual(sqlChecks());
+  });
+
+  it('passes the default skin', () => {
+    expect(checkSkinContrast(defaultSkin).filter((check) => !check.passes)).toEqual([]);
+    expect(skinPassesContrast(defaultSkin)).toBe(true);
+  });
+
+  it('suggests a passing color for each failure', () => {
+    const washedOut = skin({ primaryColor: '#ffd60a', secondaryColor: '#fde68a', backgroundColor: '#808080' });
+    const failures = checkSkinContrast(washedOut).filter((check) => !check.passes);
+    expect(failures.length).toBeGreaterThan(0);
+
+    for (const failure of failures) {
+      expect(failure.suggestion).toBeDefined();
+      const fixed = skin({ ...washedOut, [failure.suggestion!.token]: failure.suggestion!.color });
+      const check = checkSkinContrast(fixed).find((candidate) => candidate.id === failure.id);
+      expect(check?.passes).toBe(true);
+    }
+  });
+
+  it('measures the page against the app background when the skin has none', () => {
+    const card = checkSkinContrast(defaultSkin).find((check) => check.id === 'card-text');
+    expect(card).toMatchObject({ foreground: '#020817', background: '#ffffff' });
+  });
+});
@@ -0,0 +1,167 @@
+// WCAG contrast checks for every pairing of skin colors the game renders.
+// A skin that fails any of them can't be published: publish_skin_draft runs
+// the same pairings in the database, so keep the two in step. Each failure
+// here also comes with the nearest lightness of the offending color that
+// would pass.
+
+import { contrastRatio, foregroundFor, hexToHsl, hexToRgb, hslToHex, type EntitySkin } from '@/lib/skin';
+
+export type SkinColorToken = 'primaryColor' | 'secondaryColor' | 'backgroundColor';
+
+// AA for body text; large text and UI components need only 3:1
+export const MIN_TEXT_CONTRAST = 4.5;
+export const MIN_LARGE_TEXT_CONTRAST = 3;
+
+// index.css light theme, used while a skin leaves the background unset
+const APP_BACKGROUND = '#ffffff';
+const APP_FOREGROUND = '#020817';
+
+// RevealCard tints the page with green-500 / red-500 at 20%
+const CORRECT_TINT = '#22c55e';
+const INCORRECT_TINT = '#ef4444';
+const TINT_ALPHA = 0.2;
+
+export interface ContrastCheck {
+  id: string;
+  label: string;
+  usedBy: string;
+  foreground: string;
+  background: string;
+  ratio: number;
+  minimum: number;
+  passes: boolean;
+  // Set on failures: the color to change and the nearest value that passes
+  suggestion?: { token: SkinColorToken; color: string };
+}
+
+interface Pairing {
+  id: string;
+  label: string;
+  usedBy: string;
+  minimum: number;
+  // The color a failure is fixed by changing
+  adjust: SkinColorToken;
+  colors: (skin: EntitySkin) => { foreground: string; background: string };
+}
+
+const pageBackground = (skin: EntitySkin) => skin.backgroundColor ?? APP_BACKGROUND;
+const pageForeground = (skin: EntitySkin) =>
+  skin.backgroundColor ? foregroundFor(skin.backgroundColor) : APP_FOREGROUND;
+
+const blend = (base: string, tint: string, alpha: number) => {
+  const a = hexToRgb(base);
+  const b = hexToRgb(tint);
+  const mix = (x: number, y: number) =>
+    Math.round(x + (y - x) * alpha)
+      .toString(16)
+      .padStart(2, '0');
+  return `#${mix(a.r, b.r)}${mix(a.g, b.g)}${mix(a.b, b.b)}`;
+};
+
+const pairings: Pairing[] = [
+  {
+    id: 'button',
+    label: 'Button text on primary',
+    usedBy: 'ThemedButton',
+    minimum: MIN_TEXT_CONTRAST,
+    adjust: 'primaryColor',
+    colors: (skin) => ({ foreground: foregroundFor(skin.primaryColor), background: skin.primaryColor }),
+  },
+  {
+    id: 'gradient-end',
+    label: 'Button text where the gradient reaches secondary',
+    usedBy: 'ThemedButton gradient, RevealCard',
+    minimum: MIN_TEXT_CONTRAST,
+    adjust: 'secondaryColor',
+    colors: (skin) => ({ foreground: foregroundFor(skin.primaryColor), background: skin.secondaryColor }),
+  },
+  {
+    id: 'card-text',
+    label: 'Text on cards and the page',
+    usedBy: 'ThemedCard',
+    minimum: MIN_TEXT_CONTRAST,
+    adjust: 'backgroundColor',
+    colors: (skin) => ({ foreground: pageForeground(skin), background: pageBackground(skin) }),
+  },
+  {
+    id: 'gradient-text-primary',
+    label: 'Gradient headings, primary end',
+    usedBy: 'gradient-text',
+    minimum: MIN_LARGE_TEXT_CONTRAST,
+    adjust: 'primaryColor',
+    colors: (skin) => ({ foreground: skin.primaryColor, background: pageBackground(skin) }),
+  },
+  {
+    id: 'gradient-text-secondary',
+    label: 'Gradient headings, secondary end',
+    usedBy: 'gradient-text',
+    minimum: MIN_LARGE_TEXT_CONTRAST,
+    adjust: 'secondaryColor',
+    colors: (skin) => ({ foreground: skin.secondaryColor, background: pageBackground(skin) }),
+  },
+  {
+    id: 'reveal-correct',
+    label: 'Correct answers',
+    usedBy: 'RevealCard',
+    minimum: MIN_TEXT_CONTRAST,
+    adjust: 'backgroundColor',
+    colors: (skin) => ({
+      foreground: pageForeground(skin),
+      background: blend(pageBackground(skin), CORRECT_TINT, TINT_ALPHA),
+    }),
+  },
+  {
+    id: 'reveal-incorrect',
+    label: 'Incorrect answers',
+    usedBy: 'RevealCard',
+    minimum: MIN_TEXT_CONTRAST,
+    adjust: 'backgroundColor',
+    colors: (skin) => ({
+      foreground: pageForeground(skin),
+      background: blend(pageBackground(skin), INCORRECT_TINT, TINT_ALPHA),
+    }),
+  },
+];
+
+const ratioFor = (pairing: Pairing, skin: EntitySkin) => {
+  const { foreground, background } = pairing.colors(skin);
+  return contrastRatio(foreground, background);
+};
+
+// Walks the color's lightness outwards, one step each way, until the pairing
+// passes; hue and saturation are kept so the brand still reads
+const nearestPassing = (pairing: Pairing, skin: EntitySkin) => {
+  const current = skin[pairing.adjust] ?? APP_BACKGROUND;
+  const { h, s, l } = hexToHsl(current);
+
+  for (let step = 1; step <= 100; step++) {
+    for (const lightness of [l - step, l + step]) {
+      if (lightness < 0 || lightness > 100) continue;
+      const color = hslToHex(h, s, lightness);
+      if (ratioFor(pairing, { ...skin, [pairing.adjust]: color }) >= pairing.minimum) return color;
+    }
+  }
+  return undefined;
+};
+
+export const checkSkinContrast = (skin: EntitySkin): ContrastCheck[] =>
+  pairings.map((pairing) => {
+    const { foreground, background } = pairing.colors(skin);
+    const ratio = contrastRatio(foreground, background);
+    const passes = ratio >= pairing.minimum;
+    const color = passes ? undefined : nearestPassing(pairing, skin);
+
+    return {
+      id: pairing.id,
+      label: pairing.label,
+      usedBy: pairing.usedBy,
+      foreground,
+      background,
+      ratio,
+      minimum: pairing.minimum,
+      passes,
+      suggestion: color ? { token: pairing.adjust, color } : undefined,
+    };
+  });
+
+export const skinPassesContrast = (skin: EntitySkin) => checkSkinContrast(skin).every((check) => check.passes);
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { filterTopics, fuzzyScore, type SearchableTopic } from '@/lib/topicSearch';
+
+const topic = (id: string, name: string, category: string | null = null, tags: string[] = []): SearchableTopic => ({
+  id,
+  name,
+  category,
+  tags,
+});
+
+const TOPICS = [
+  topic('burgers', 'Burgers', 'Food', ['comfort']),
+  topic('comfort', 'Comfort Food', 'Food', ['cozy']),
+  topic('films', 'Films', 'Culture', ['movies', 'cinema']),
+  topic('wine', 'Wine', null, ['drinks']),
+];
+
+const ids = (topics: SearchableTopic[]) => topics.map((match) => match.id);
+
+describe('fuzzyScore', () => {
+  it('matches an empty word', () => {
+    expect(fuzzyScore('', 'Anything')).toBe(0);
+  });
+
+  it('prefers substrings at the start of a word', () => {
+    const start = fuzzyScore('food', 'Comfort Food');
+    const inside = fuzzyScore('ood', 'Comfort Food');
+    expect(start).not.toBeNull();
+    expect(start!).toBeGreaterThan(inside!);
+  });
+
+  it('prefers earlier substrings', () => {
+    expect(fuzzyScore('art', 'Art history')!).toBeGreaterThan(fuzzyScore('art', 'Pop art')!);
+  });
+
+  it('matches letters in order with gaps', () => {
+    const score = fuzzyScore('cmft', 'comfort food');
+    expect(score).not.toBeNull();
+    expect(score!).toBeLessThan(fuzzyScore('comf', 'comfort food')!);
+  });
+
+  it('refuses letters out of order', () => {
+    expect(fuzzyScore('tfmc', 'comfort food')).toBeNull();
+  });
+});
+
+describe('filterTopics', () => {
+  it('keeps the given order without a query', () => {
+    expect(ids(filterTopics(TOPICS, { query: '  ', category: null }))).toEqual(['burgers', 'comfort', 'films', 'wine']);
+  });
+
+  it('searches names, categories and tags', () => {
+    expect(ids(filterTopics(TOPICS, { query: 'cinema', category: null }))).toEqual(['films']);
+    expect(ids(filterTopics(TOPICS, { query: 'culture', category: null }))).toEqual(['films']);
+    expect(ids(filterTopics(TOPICS, { query: 'DRINKS', category: null }))).toEqual(['wine']);
+  });
+
+  it('needs every word to match', () => {
+    expect(ids(filterTopics(TOPICS, { query: 'comfort cozy', category: null }))).toEqual(['comfort']);
+    expect(ids(filterTopics(TOPICS, { query: 'comfort wine', category: null }))).toEqual([]);
+  });
+
+  it('puts the closest match first', () => {
+    const topics = [topic('pop', 'Pop art'), topic('scattered', 'Abstract'), topic('history', 'Art history')];
+    expect(ids(filterTopics(topics, { query: 'art', category: null }))).toEqual(['history', 'pop', 'scattered']);
+  });
+
+  it('filters by category and excluded ids', () => {
+    expect(ids(filterTopics(TOPICS, { query: '', category: 'Food' }))).toEqual(['burgers', 'comfort']);
+    expect(ids(filterTopics(TOPICS, { query: '', category: 'Food', excludeIds: new Set(['burgers']) }))).toEqual([
+      'comfort',
+    ]);
+  });
+});
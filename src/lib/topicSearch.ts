@@ -0,0 +1,80 @@
+// Fuzzy topic search for TopicSelection. Every word of the query has to
+// match the topic's name, category or one of its tags; results are ordered
+// by how closely they match.
+
+export interface SearchableTopic {
+  id: string;
+  name: string;
+  category: string | null;
+  tags: string[];
+}
+
+export interface TopicFilter {
+  query: string;
+  // null shows every category
+  category: string | null;
+  excludeIds?: Set<string>;
+}
+
+// Scores how well a query word matches some text, or null for no match.
+// Substrings beat scattered letters, and earlier matches beat later ones.
+export const fuzzyScore = (word: string, text: string): number | null => {
+  const haystack = text.toLowerCase();
+  if (!word) return 0;
+
+  const index = haystack.indexOf(word);
+  if (index !== -1) {
+    const atWordStart = index === 0 || /\W/.test(haystack[index - 1]);
+    return 100 - Math.min(index, 50) + (atWordStart ? 25 : 0);
+  }
+
+  // Letters in order with gaps, e.g. "cmft" in "comfort food"
+  let score = 0;
+  let position = -1;
+  let run = 0;
+
+  for (const char of word) {
+    const next = haystack.indexOf(char, position + 1);
+    if (next === -1) return null;
+
+    run = next === position + 1 ? run + 1 : 0;
+    score += 1 + run * 2;
+    position = next;
+  }
+
+  return score;
+};
+
+const scoreTopic = (topic: SearchableTopic, words: string[]) => {
+  let total = 0;
+
+  for (const word of words) {
+    const scores = [
+      fuzzyScore(word, topic.name),
+      topic.category ? fuzzyScore(word, topic.category) : null,
+      ...topic.tags.map((tag) => fuzzyScore(word, tag)),
+    ].filter((score): score is number => score !== null);
+
+    if (scores.length === 0) return null;
+    total += Math.max(...scores);
+  }
+
+  return total;
+};
+
+export const filterTopics = <T extends SearchableTopic>(topics: T[], { query, category, excludeIds }: TopicFilter) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  const matches = topics
+    .filter((topic) => !excludeIds?.has(topic.id))
+    .filter((topic) => !category || topic.category === category)
+    .map((topic) => ({ topic, score: scoreTopic(topic, words) }))
+    .filter((match): match is { topic: T; score: number } => match.score !== null);
+
+  // Without a query keep the alphabetical order
+  if (words.length > 0) {
+    matches.sort((a, b) => b.score - a.score);
+  }
+
+  return matches.map((match) => match.topic);
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parseTopicFile,
+  parseTopicsCsv,
+  parseTopicsJson,
+  planTopicImport,
+  topicsToCsv,
+  topicsToJson,
+  type LibraryTopic,
+} from '@/lib/topicTransfer';
+
+const NAMES = ['Pizza', 'Ramen', 'Tacos', 'Sushi', 'Curry', 'Pho', 'Burger', 'Salad', 'Pasta', 'Soup'];
+
+const libraryTopic = (name: string, names = NAMES): LibraryTopic => ({
+  id: `id-${name}`,
+  name,
+  items: names.map((item) => ({ name: item, emoji: null, description: null, image_url: null })),
+});
+
+describe('parseTopicsCsv', () => {
+  it('groups rows by topic in order', () => {
+    expect(parseTopicsCsv('topic,item\nFood,Pizza\nDrinks,Tea\nfood,Ramen\n')).toEqual([
+      { name: 'Food', items: [{ name: 'Pizza' }, { name: 'Ramen' }] },
+      { name: 'Drinks', items: [{ name: 'Tea' }] },
+    ]);
+  });
+
+  it('reads quoted fields with commas, quotes and newlines', () => {
+    expect(parseTopicsCsv('item,topic\r\n"Mac ""n"" cheese",Food\r\n"Salt,\nvinegar",Food')).toEqual([
+      { name: 'Food', items: [{ name: 'Mac "n" cheese' }, { name: 'Salt,\nvinegar' }] },
+    ]);
+  });
+
+  it('ignores a byte order mark and blank lines', () => {
+    expect(parseTopicsCsv('﻿topic,item\n\nFood,Pizza\n\n')).toEqual([{ name: 'Food', items: [{ name: 'Pizza' }] }]);
+  });
+
+  it('needs topic and item columns', () => {
+    expect(() => parseTopicsCsv('name,value\nFood,Pizza')).toThrow('The CSV needs "topic" and "item" columns');
+  });
+});
+
+describe('parseTopicsJson', () => {
+  it('accepts plain names and media objects', () => {
+    expect(
+      parseTopicsJson('{"topics":[{"name":" Food ","items":["Pizza",{"name":"Ramen","emoji":"🍜","image_url":null}]}]}')
+    ).toEqual([{ name: 'Food', items: [{ name: 'Pizza' }, { name: 'Ramen', emoji: '🍜', image_url: null }] }]);
+  });
+
+  it('reports the entry that is malformed', () => {
+    expect(() => parseTopicsJson('[{"name":"Food","items":[]},{"name":"Drinks"}]')).toThrow(
+      'Topic 2 needs a "name" and a list of "items"'
+    );
+  });
+});
+
+describe('round trips', () => {
+  const library = [
+    {
+      ...libraryTopic('Food, "Comfort"'),
+      items: libraryTopic('Food').items.map((item, index) => (index === 0 ? { ...item, emoji: '🍕' } : item)),
+    },
+  ];
+
+  it('keeps names and media through JSON', () => {
+    const records = parseTopicFile('topics.json', topicsToJson(library));
+    expect(records[0].items[0]).toEqual({ name: 'Pizza', emoji: '🍕', description: null, image_url: null });
+    expect(planTopicImport(records, library)[0].status).toBe('unchanged');
+  });
+
+  it('keeps names through CSV and leaves media alone', () => {
+    const records = parseTopicFile('topics.csv', topicsToCsv(library));
+    expect(records[0].name).toBe('Food, "Comfort"');
+    expect(records[0].items[0]).toEqual({ name: 'Pizza' });
+    expect(planTopicImport(records, library)[0].status).toBe('unchanged');
+  });
+
+  it('refuses other file types', () => {
+    expect(() => parseTopicFile('topics.txt', '')).toThrow('Only .json and .csv files can be imported');
+  });
+});
+
+describe('planTopicImport', () => {
+  const library = [libraryTopic('Food')];
+  const record = (name: string, names = NAMES) => ({ name, items: names.map((item) => ({ name: item })) });
+
+  it('marks topics that are not in the library as new', () => {
+    expect(planTopicImport([record('Drinks')], library)[0]).toEqual({
+      record: record('Drinks'),
+      status: 'new',
+      reasons: [],
+    });
+  });
+
+  it('matches library topics case-insensitively and flags changes', () => {
+    const reordered = [...NAMES].reverse();
+    const [entry] = planTopicImport([record('FOOD', reordered)], library);
+    expect(entry.status).toBe('changed');
+    expect(entry.existingId).toBe('id-Food');
+  });
+
+  it('flags a media change as a change', () => {
+    const changed = { name: 'Food', items: NAMES.map((name, index) => (index === 0 ? { name, emoji: '🍕' } : { name })) };
+    expect(planTopicImport([changed], library)[0].status).toBe('changed');
+  });
+
+  it('flags topics that appear twice in the file', () => {
+    const plan = planTopicImport([record('Drinks'), record('drinks')], library);
+    expect(plan.map((entry) => entry.status)).toEqual(['conflict', 'conflict']);
+  });
+
+  it('flags topics that break the topic rules', () => {
+    const [entry] = planTopicImport([record('Drinks', ['Tea', 'tea'])], library);
+    expect(entry.status).toBe('invalid');
+    expect(entry.reasons).toContain('Duplicate items: tea');
+  });
+});
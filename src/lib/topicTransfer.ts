@@ -0,0 +1,234 @@
+// Import and export of a topic library as JSON or CSV, plus the dry run that
+// shows what an import would change before anything is written.
+//
+// JSON: [{ "name": "Comfort Food", "items": [{ "name": "Pizza", "emoji": "🍕",
+//         "description": null, "image_url": null }, ...] }, ...]
+//       Items may also be plain names. A media field left out keeps the
+//       library item's value; null clears it.
+// CSV:  a "topic,item" header, then one row per item in ranking order. CSV
+//       carries item names only, so importing one keeps the existing media.
+
+import { normalizeName, validateTopic } from '@/lib/topics';
+
+// Media fields are only present when the file sets them
+export interface TopicRecordItem {
+  name: string;
+  emoji?: string | null;
+  description?: string | null;
+  image_url?: string | null;
+}
+
+export interface TopicRecord {
+  name: string;
+  items: TopicRecordItem[];
+}
+
+export interface LibraryTopic {
+  id: string;
+  name: string;
+  items: Required<TopicRecordItem>[];
+}
+
+const MEDIA_FIELDS = ['emoji', 'description', 'image_url'] as const;
+
+export type TopicFileFormat = 'json' | 'csv';
+
+export type ImportStatus = 'new' | 'changed' | 'unchanged' | 'conflict' | 'invalid';
+
+export interface ImportPlanEntry {
+  record: TopicRecord;
+  status: ImportStatus;
+  // The library topic this entry would overwrite
+  existingId?: string;
+  reasons: string[];
+}
+
+export const formatFromFileName = (fileName: string): TopicFileFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'csv') return 'csv';
+  return null;
+};
+
+const parseJsonItem = (item: unknown): TopicRecordItem => {
+  if (typeof item !== 'object' || item === null) return { name: String(item).trim() };
+
+  const fields = item as Record<string, unknown>;
+  const record: TopicRecordItem = { name: String(fields.name ?? '').trim() };
+  MEDIA_FIELDS.forEach((field) => {
+    const value = fields[field];
+    if (value === null) record[field] = null;
+    else if (typeof value === 'string') record[field] = value.trim() || null;
+  });
+  return record;
+};
+
+export const parseTopicsJson = (text: string): TopicRecord[] => {
+  const data = JSON.parse(text);
+  const list = Array.isArray(data) ? data : data?.topics;
+
+  if (!Array.isArray(list)) {
+    throw new Error('Expected a list of topics');
+  }
+
+  return list.map((entry, index) => {
+    if (typeof entry?.name !== 'string' || !Array.isArray(entry.items)) {
+      throw new Error(`Topic ${index + 1} needs a "name" and a list of "items"`);
+    }
+
+    return {
+      name: entry.name.trim(),
+      // Items may be plain strings or { name, ...media } objects
+      items: entry.items.map(parseJsonItem),
+    };
+  });
+};
+
+// Splits CSV text into rows of fields, honouring quoted fields
+const parseCsvRows = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim()));
+};
+
+export const parseTopicsCsv = (text: string): TopicRecord[] => {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const columns = (header || []).map((column) => column.trim().toLowerCase());
+  const topicColumn = columns.indexOf('topic');
+  const itemColumn = columns.indexOf('item');
+
+  if (topicColumn === -1 || itemColumn === -1) {
+    throw new Error('The CSV needs "topic" and "item" columns');
+  }
+
+  // Rows for the same topic are grouped, keeping their order
+  const topics = new Map<string, TopicRecord>();
+  rows.forEach((row) => {
+    const name = (row[topicColumn] || '').trim();
+    const key = normalizeName(name);
+    if (!topics.has(key)) topics.set(key, { name, items: [] });
+    topics.get(key)!.items.push({ name: (row[itemColumn] || '').trim() });
+  });
+
+  return [...topics.values()];
+};
+
+export const parseTopicFile = (fileName: string, text: string) => {
+  const format = formatFromFileName(fileName);
+  if (format === 'json') return parseTopicsJson(text);
+  if (format === 'csv') return parseTopicsCsv(text);
+  throw new Error('Only .json and .csv files can be imported');
+};
+
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const topicsToCsv = (topics: LibraryTopic[]) =>
+  [
+    'topic,item',
+    ...topics.flatMap((topic) => topic.items.map((item) => `${csvField(topic.name)},${csvField(item.name)}`)),
+  ].join('\n') + '\n';
+
+export const topicsToJson = (topics: LibraryTopic[]) =>
+  JSON.stringify(
+    topics.map(({ name, items }) => ({
+      name,
+      items: items.map(({ name, emoji, description, image_url }) => ({ name, emoji, description, image_url })),
+    })),
+    null,
+    2
+  ) + '\n';
+
+export const serializeTopics = (topics: LibraryTopic[], format: TopicFileFormat) =>
+  format === 'json' ? topicsToJson(topics) : topicsToCsv(topics);
+
+// Compares an import against the library. Names match case-insensitively,
+// since two topics that differ only in case would read as duplicates.
+export const planTopicImport = (records: TopicRecord[], library: LibraryTopic[]): ImportPlanEntry[] => {
+  const existing = new Map(library.map((topic) => [normalizeName(topic.name), topic]));
+  const counts = new Map<string, number>();
+  records.forEach((record) => {
+    const key = normalizeName(record.name);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+
+  return records.map((record) => {
+    const key = normalizeName(record.name);
+    const match = existing.get(key);
+
+    if ((counts.get(key) || 0) > 1) {
+      return {
+        record,
+        status: 'conflict',
+        existingId: match?.id,
+        reasons: [`"${record.name}" appears more than once in the file`],
+      };
+    }
+
+    const reasons = validateTopic({
+      name: record.name,
+      items: record.items.map((item, index) => ({ id: String(index), name: item.name })),
+    });
+
+    if (reasons.length > 0) {
+      return { record, status: 'invalid', existingId: match?.id, reasons };
+    }
+
+    if (!match) {
+      return { record, status: 'new', reasons: [] };
+    }
+
+    const same =
+      match.name === record.name &&
+      match.items.length === record.items.length &&
+      match.items.every((item, index) => {
+        const incoming = record.items[index];
+        return (
+          item.name === incoming.name &&
+          MEDIA_FIELDS.every((field) => incoming[field] === undefined || incoming[field] === item[field])
+        );
+      });
+
+    return {
+      record,
+      status: same ? 'unchanged' : 'changed',
+      existingId: match.id,
+      reasons: same ? [] : [`Replaces the existing "${match.name}"`],
+    };
+  });
+};
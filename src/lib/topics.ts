@@ -0,0 +1,69 @@
+// Rules a topic must satisfy before it can be saved. The game ranks every
+// item in a topic, so each one needs exactly TOPIC_ITEM_COUNT distinct items.
+
+export const TOPIC_ITEM_COUNT = 10;
+
+// A VIP customising an editable topic may add items up to this many.
+// Mirrored by set_round_items.
+export const MAX_ROUND_ITEMS = 15;
+
+// How many of a round's items get ranked and guessed. A game may rank only
+// the top few; null ranks them all.
+export const rankedCount = (rankedPositions: number | null | undefined, itemCount: number) =>
+  Math.min(rankedPositions ?? itemCount, itemCount);
+
+// Categories offered when editing a topic; the built-in library uses these
+export const TOPIC_CATEGORIES = ['Family', 'Food', 'Sports', 'Pop Culture', 'Travel', 'Memories', 'Lifestyle'];
+
+// Tags are stored lowercase and hyphenated, e.g. "theme-parks"
+export const normalizeTag = (tag: string) =>
+  tag.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+export interface TopicDraft {
+  name: string;
+  items: { id: string; name: string }[];
+}
+
+// Names compare case- and whitespace-insensitively
+export const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Item names that appear more than once, as first written
+export const findDuplicateItems = (items: { name: string }[]) => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+
+  items.forEach((item) => {
+    const key = normalizeName(item.name);
+    if (seen.has(key)) duplicates.add(item.name.trim());
+    seen.add(key);
+  });
+
+  return [...duplicates];
+};
+
+// Returns every problem with the draft; empty when it can be saved
+export const validateTopic = (draft: TopicDraft, otherTopicNames: string[] = []) => {
+  const errors: string[] = [];
+  const name = draft.name.trim();
+
+  if (!name) {
+    errors.push('Give the topic a title');
+  } else if (otherTopicNames.some((other) => normalizeName(other) === normalizeName(name))) {
+    errors.push(`A topic called "${name}" already exists`);
+  }
+
+  if (draft.items.some((item) => !item.name.trim())) {
+    errors.push('Items cannot be blank');
+  }
+
+  if (draft.items.length !== TOPIC_ITEM_COUNT) {
+    errors.push(`A topic needs exactly ${TOPIC_ITEM_COUNT} items (it has ${draft.items.length})`);
+  }
+
+  const duplicates = findDuplicateItems(draft.items);
+  if (duplicates.length > 0) {
+    errors.push(`Duplicate items: ${duplicates.join(', ')}`);
+  }
+
+  return errors;
+};
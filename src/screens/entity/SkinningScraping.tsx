@@ -1,23 +1,403 @@
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { ThemedButton } from '@/components/ThemedButton';
 import { ThemedCard } from '@/components/ThemedCard';
-import { ArrowLeft } from 'lucide-react';
+import { BrandExtractor } from '@/components/entity/BrandExtractor';
+import { SkinContrastReport } from '@/components/entity/SkinContrastReport';
+import { SkinPreview } from '@/components/entity/SkinPreview';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSkinEditor } from '@/hooks/useSkinEditor';
+import { useToast } from '@/hooks/use-toast';
+import type { BrandProposal } from '@/lib/brandExtraction';
+import { checkSkinContrast } from '@/lib/skinContrast';
+import {
+  SKIN_FONTS,
+  defaultSkin,
+  isHexColor,
+  type ButtonStyle,
+  type CardBack,
+  type CardStyle,
+  type EntitySkin,
+} from '@/lib/skin';
+import { ArrowLeft, ImagePlus, RotateCcw, Trash2 } from 'lucide-react';
+
+const DEFAULT_FONT = 'default';
+
+interface ColorFieldProps {
+  id: string;
+  label: string;
+  value: string | undefined;
+  onChange: (value: string | undefined) => void;
+  // Optional colors can be cleared back to the app's own
+  optional?: boolean;
+}
+
+const ColorField = ({ id, label, value, onChange, optional = false }: ColorFieldProps) => {
+  const [text, setText] = useState(value ?? '');
+
+  useEffect(() => {
+    setText(value ?? '');
+  }, [value]);
+
+  return (
+    <div>
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex gap-2 mt-1">
+        <input
+          type="color"
+          aria-label={`${label} picker`}
+          value={value ?? '#ffffff'}
+          onChange={(e) => onChange(e.target.value)}
+          className="h-10 w-12 rounded-md border border-input bg-background cursor-pointer"
+        />
+        <Input
+          id={id}
+          value={text}
+          placeholder={optional ? 'App default' : '#000000'}
+          onChange={(e) => {
+            setText(e.target.value);
+            if (isHexColor(e.target.value)) onChange(e.target.value.toLowerCase());
+          }}
+          onBlur={() => setText(value ?? '')}
+        />
+        {optional && value && (
+          <ThemedButton variant="outline" size="icon" aria-label={`Reset ${label}`} onClick={() => onChange(undefined)}>
+            <RotateCcw className="w-4 h-4" />
+          </ThemedButton>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const sameSkin = (a: EntitySkin | null, b: EntitySkin | null) =>
+  !!a &&
+  !!b &&
+  a.primaryColor === b.primaryColor &&
+  a.secondaryColor === b.secondaryColor &&
+  a.backgroundColor === b.backgroundColor &&
+  a.logo === b.logo &&
+  a.font === b.font &&
+  a.shapes?.buttonStyle === b.shapes?.buttonStyle &&
+  a.shapes?.cardStyle === b.shapes?.cardStyle &&
+  !!a.watermark === !!b.watermark &&
+  (a.cardBack ?? 'question') === (b.cardBack ?? 'question');
 
 export const SkinningScraping = () => {
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { published, draft, history, loading, saveDraft, publishDraft, discardDraft, uploadLogo } = useSkinEditor(
+    user?.entityId,
+    user?.id
+  );
+  const [skin, setSkin] = useState<EntitySkin>(defaultSkin);
+  const [busy, setBusy] = useState(false);
+
+  // Start from the draft if there is one, otherwise the live skin
+  useEffect(() => {
+    if (loading) return;
+    setSkin(draft ?? published ?? defaultSkin);
+  }, [loading]);
+
+  const unsaved = !sameSkin(skin, draft ?? published ?? defaultSkin);
+  const contrastChecks = checkSkinContrast(skin);
+  const contrastPasses = contrastChecks.every((check) => check.passes);
+  const status = unsaved
+    ? 'Unsaved changes'
+    : draft
+      ? 'Draft saved, not live yet'
+      : published
+        ? `Live as version ${history[0]?.version ?? 1}`
+        : 'Using the Knowsy default';
+
+  const update = (changes: Partial<EntitySkin>) => setSkin((prev) => ({ ...prev, ...changes }));
+
+  const updateShapes = (changes: Partial<NonNullable<EntitySkin['shapes']>>) =>
+    setSkin((prev) => ({
+      ...prev,
+      shapes: { buttonStyle: 'rounded', cardStyle: 'rounded', ...prev.shapes, ...changes },
+    }));
+
+  const handleLogo = async (file: File | undefined) => {
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast({
+        title: 'Unsupported File',
+        description: 'Choose a PNG, JPG, SVG or WebP image',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setBusy(true);
+    const url = await uploadLogo(file);
+    setBusy(false);
+    if (url) update({ logo: url });
+  };
+
+  // Extracted colors, font and shapes replace the editor's; the logo only
+  // changes when the analysed image should become it
+  const handleExtracted = async (proposal: BrandProposal, logoFile?: File) => {
+    let logo = skin.logo;
+    if (logoFile) {
+      setBusy(true);
+      logo = (await uploadLogo(logoFile)) ?? logo;
+      setBusy(false);
+    }
+    setSkin({ ...proposal.skin, logo });
+    toast({ title: 'Brand Applied', description: 'Check the preview, then save or publish' });
+  };
+
+  const handleSaveDraft = async () => {
+    setBusy(true);
+    const saved = await saveDraft(skin);
+    setBusy(false);
+    if (saved) toast({ title: 'Draft Saved', description: 'Publish it when you are ready' });
+  };
+
+  const handlePublish = async () => {
+    // Unreadable skins never reach players
+    if (!contrastPasses) {
+      toast({
+        title: 'Contrast Too Low',
+        description: 'Apply the suggested colors before publishing',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // publish_skin_draft only publishes a saved draft
+    setBusy(true);
+    const saved = unsaved || !draft ? await saveDraft(skin) : true;
+    const version = saved ? await publishDraft() : null;
+    setBusy(false);
+    if (version) toast({ title: 'Skin Published', description: `Version ${version} is now live for players` });
+  };
+
+  const handleDiscard = async () => {
+    setBusy(true);
+    const discarded = await discardDraft();
+    setBusy(false);
+    if (discarded) setSkin(published ?? defaultSkin);
+  };
 
   return (
     <div className="min-h-screen bg-background p-6">
-      <div className="max-w-4xl mx-auto">
+      <div className="max-w-6xl mx-auto">
         <div className="flex items-center gap-4 mb-8">
           <ThemedButton variant="outline" onClick={() => navigate('/entity/dashboard')}>
             <ArrowLeft className="w-4 h-4" />
           </ThemedButton>
-          <h1 className="text-4xl font-bold gradient-text">Scraping Method</h1>
+          <div className="flex-1">
+            <h1 className="text-4xl font-bold gradient-text mb-2">Skinning</h1>
+            <p className="text-muted-foreground">{status}</p>
+          </div>
         </div>
-        <ThemedCard glow>
-          <p className="text-muted-foreground">Screen: Skinning Scraping - Feature coming soon</p>
-        </ThemedCard>
+
+        {!user?.entityId ? (
+          <ThemedCard>
+            <p className="text-muted-foreground p-4">
+              Your account isn't managing a space yet, so there is no skin to edit.
+            </p>
+          </ThemedCard>
+        ) : loading ? (
+          <p className="text-muted-foreground">Loading skin...</p>
+        ) : (
+          <div className="grid lg:grid-cols-2 gap-6 items-start">
+            <div className="space-y-6">
+              <BrandExtractor entityId={user.entityId} onApply={handleExtracted} disabled={busy} />
+
+              <ThemedCard title="Brand">
+                <div className="space-y-4">
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    <ColorField
+                      id="primary-color"
+                      label="Primary"
+                      value={skin.primaryColor}
+                      onChange={(value) => value && update({ primaryColor: value })}
+                    />
+                    <ColorField
+                      id="secondary-color"
+                      label="Secondary"
+                      value={skin.secondaryColor}
+                      onChange={(value) => value && update({ secondaryColor: value })}
+                    />
+                    <ColorField
+                      id="background-color"
+                      label="Background"
+                      value={skin.backgroundColor}
+                      onChange={(value) => update({ backgroundColor: value })}
+                      optional
+                    />
+                    <div>
+                      <Label htmlFor="font">Font</Label>
+                      <Select
+                        value={skin.font ?? DEFAULT_FONT}
+                        onValueChange={(value) => update({ font: value === DEFAULT_FONT ? undefined : value })}
+                      >
+                        <SelectTrigger id="font" className="mt-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={DEFAULT_FONT}>App default</SelectItem>
+                          {SKIN_FONTS.map((font) => (
+                            <SelectItem key={font} value={font} style={{ fontFamily: font }}>
+                              {font}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div>
+                    <Label className="block mb-2">Logo</Label>
+                    <div className="flex items-center gap-3">
+                      {skin.logo ? (
+                        <img src={skin.logo} alt="Logo" className="h-12 max-w-[8rem] object-contain" />
+                      ) : (
+                        <p className="text-sm text-muted-foreground">No logo</p>
+                      )}
+                      <ThemedButton variant="outline" asChild disabled={busy}>
+                        <label className="cursor-pointer">
+                          <ImagePlus className="w-4 h-4 mr-2" />
+                          {skin.logo ? 'Replace' : 'Upload'}
+                          <input
+                            type="file"
+                            accept="image/*"
+                            className="hidden"
+                            onChange={(e) => {
+                              handleLogo(e.target.files?.[0]);
+                              e.target.value = '';
+                            }}
+                          />
+                        </label>
+                      </ThemedButton>
+                      {skin.logo && (
+                        <ThemedButton variant="outline" size="icon" aria-label="Remove logo" onClick={() => update({ logo: undefined })}>
+                          <Trash2 className="w-4 h-4" />
+                        </ThemedButton>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    <div>
+                      <Label className="block mb-2">Buttons</Label>
+                      <ToggleGroup
+                        type="single"
+                        variant="outline"
+                        value={skin.shapes?.buttonStyle ?? 'rounded'}
+                        onValueChange={(value) => value && updateShapes({ buttonStyle: value as ButtonStyle })}
+                      >
+                        <ToggleGroupItem value="rounded">Rounded</ToggleGroupItem>
+                        <ToggleGroupItem value="sharp">Sharp</ToggleGroupItem>
+                        <ToggleGroupItem value="pill">Pill</ToggleGroupItem>
+                      </ToggleGroup>
+                    </div>
+                    <div>
+                      <Label className="block mb-2">Cards</Label>
+                      <ToggleGroup
+                        type="single"
+                        variant="outline"
+                        value={skin.shapes?.cardStyle ?? 'rounded'}
+                        onValueChange={(value) => value && updateShapes({ cardStyle: value as CardStyle })}
+                      >
+                        <ToggleGroupItem value="rounded">Rounded</ToggleGroupItem>
+                        <ToggleGroupItem value="sharp">Sharp</ToggleGroupItem>
+                      </ToggleGroup>
+                    </div>
+                  </div>
+
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    <div>
+                      <Label className="block mb-2">Reveal card back</Label>
+                      <ToggleGroup
+                        type="single"
+                        variant="outline"
+                        value={skin.cardBack ?? 'question'}
+                        onValueChange={(value) => value && update({ cardBack: value as CardBack })}
+                      >
+                        <ToggleGroupItem value="question">?</ToggleGroupItem>
+                        <ToggleGroupItem value="logo" disabled={!skin.logo}>
+                          Logo
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="pattern">Pattern</ToggleGroupItem>
+                      </ToggleGroup>
+                    </div>
+                    <div>
+                      <Label htmlFor="watermark" className="block mb-2">
+                        Logo watermark on cards
+                      </Label>
+                      <Switch
+                        id="watermark"
+                        checked={!!skin.watermark}
+                        disabled={!skin.logo}
+                        onCheckedChange={(checked) => update({ watermark: checked })}
+                      />
+                    </div>
+                  </div>
+                </div>
+              </ThemedCard>
+
+              <SkinContrastReport checks={contrastChecks} onApplySuggestion={(token, color) => update({ [token]: color })} />
+
+              <div className="flex flex-wrap gap-3">
+                <ThemedButton gradient glow onClick={handlePublish} disabled={busy || !contrastPasses || (!unsaved && !draft)}>
+                  Publish
+                </ThemedButton>
+                <ThemedButton variant="outline" onClick={handleSaveDraft} disabled={busy || !unsaved}>
+                  Save Draft
+                </ThemedButton>
+                {draft && (
+                  <ThemedButton variant="outline" onClick={handleDiscard} disabled={busy}>
+                    Discard Draft
+                  </ThemedButton>
+                )}
+              </div>
+
+              {history.length > 0 && (
+                <ThemedCard title="Version History" description="Restore a version into the editor, then publish it again">
+                  <div className="space-y-2">
+                    {history.map((entry) => (
+                      <div key={entry.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted">
+                        <div className="flex items-center gap-3">
+                          <span className="flex">
+                            <span className="w-5 h-5 rounded-full border border-border" style={{ background: entry.skin.primaryColor }} />
+                            <span className="w-5 h-5 rounded-full border border-border -ml-2" style={{ background: entry.skin.secondaryColor }} />
+                          </span>
+                          <div>
+                            <p className="font-semibold">
+                              Version {entry.version}
+                              {entry.version === history[0].version && ' (live)'}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {new Date(entry.published_at).toLocaleString()}
+                            </p>
+                          </div>
+                        </div>
+                        <ThemedButton variant="outline" size="sm" onClick={() => setSkin(entry.skin)}>
+                          Restore
+                        </ThemedButton>
+                      </div>
+                    ))}
+                  </div>
+                </ThemedCard>
+              )}
+            </div>
+
+            <div className="lg:sticky lg:top-6">
+              <SkinPreview skin={skin} />
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,20 +1,103 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { ThemedButton } from '@/components/ThemedButton';
 import { ThemedCard } from '@/components/ThemedCard';
+import { ItemMediaDialog } from '@/components/entity/ItemMediaDialog';
+import { DraggableItemList } from '@/components/game/DraggableItemList';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTopics, useTopicActions, type TopicItem } from '@/hooks/useTopics';
+import { useToast } from '@/hooks/use-toast';
+import { TOPIC_CATEGORIES, TOPIC_ITEM_COUNT, normalizeName, normalizeTag, validateTopic } from '@/lib/topics';
 import { ArrowLeft, Plus } from 'lucide-react';
 
 export const TopicForm = () => {
   const navigate = useNavigate();
   const { topicId } = useParams();
+  const { user } = useAuth();
+  const { topics } = useTopics(user?.entityId);
+  const { loadTopic, saveTopic } = useTopicActions();
+  const { toast } = useToast();
   const [title, setTitle] = useState('');
-  const [items, setItems] = useState<string[]>([]);
+  const [category, setCategory] = useState<string | null>(null);
+  const [tagText, setTagText] = useState('');
+  const [items, setItems] = useState<TopicItem[]>([]);
+  const [newItem, setNewItem] = useState('');
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(!!topicId);
+  const [saving, setSaving] = useState(false);
 
-  const handleSave = () => {
-    // Placeholder save logic
-    navigate('/entity/topics');
+  useEffect(() => {
+    if (!topicId) return;
+
+    loadTopic(topicId).then((topic) => {
+      if (topic) {
+        setTitle(topic.name);
+        setCategory(topic.category);
+        setTagText(topic.tags.join(', '));
+        setItems(topic.items);
+      }
+      setLoading(false);
+    });
+  }, [topicId]);
+
+  const errors = useMemo(
+    () =>
+      validateTopic(
+        { name: title, items },
+        topics.filter((topic) => topic.id !== topicId).map((topic) => topic.name)
+      ),
+    [title, items, topics, topicId]
+  );
+
+  const handleAddItem = () => {
+    const name = newItem.trim();
+    if (!name) return;
+
+    if (items.some((item) => normalizeName(item.name) === normalizeName(name))) {
+      toast({
+        title: 'Duplicate Item',
+        description: `"${name}" is already in this topic`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setItems((prev) => [...prev, { id: crypto.randomUUID(), name }]);
+    setNewItem('');
+  };
+
+  const handleRemoveItem = (id: string) => {
+    setItems((prev) => prev.filter((item) => item.id !== id));
+  };
+
+  const handleItemMedia = (updated: TopicItem) => {
+    setItems((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+  };
+
+  const handleSave = async () => {
+    if (!user?.entityId || errors.length > 0) return;
+
+    setSaving(true);
+    const saved = await saveTopic({
+      id: topicId,
+      entityId: user.entityId,
+      name: title,
+      category,
+      tags: [...new Set(tagText.split(',').map(normalizeTag).filter(Boolean))],
+      items,
+    });
+    setSaving(false);
+
+    if (saved) {
+      toast({
+        title: 'Topic Saved',
+        description: `"${title.trim()}" is ready to play`,
+      });
+      navigate('/entity/topics');
+    }
   };
 
   return (
@@ -29,49 +112,127 @@ export const TopicForm = () => {
           </h1>
         </div>
 
-        <ThemedCard glow>
-          <div className="space-y-6">
-            <div>
-              <Label htmlFor="title">Topic Title</Label>
-              <Input
-                id="title"
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                placeholder="e.g., Movies 2023"
-              />
-            </div>
+        {loading ? (
+          <ThemedCard glow>
+            <p className="text-muted-foreground">Loading topic...</p>
+          </ThemedCard>
+        ) : (
+          <ThemedCard glow>
+            <div className="space-y-6">
+              <div>
+                <Label htmlFor="title">Topic Title</Label>
+                <Input
+                  id="title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="e.g., Movies 2023"
+                />
+              </div>
+
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="category">Category</Label>
+                  <Select value={category ?? ''} onValueChange={(v) => setCategory(v || null)}>
+                    <SelectTrigger id="category">
+                      <SelectValue placeholder="Choose a category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TOPIC_CATEGORIES.map((c) => (
+                        <SelectItem key={c} value={c}>
+                          {c}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="tags">Tags</Label>
+                  <Input
+                    id="tags"
+                    value={tagText}
+                    onChange={(e) => setTagText(e.target.value)}
+                    placeholder="e.g., movies, 2023"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="new-item" className="block mb-2">
+                  Items ({items.length}/{TOPIC_ITEM_COUNT})
+                </Label>
+                <form
+                  className="flex gap-2 mb-4"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleAddItem();
+                  }}
+                >
+                  <Input
+                    id="new-item"
+                    value={newItem}
+                    onChange={(e) => setNewItem(e.target.value)}
+                    placeholder="Add an item"
+                    disabled={items.length >= TOPIC_ITEM_COUNT}
+                  />
+                  <ThemedButton
+                    type="submit"
+                    variant="outline"
+                    disabled={!newItem.trim() || items.length >= TOPIC_ITEM_COUNT}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add
+                  </ThemedButton>
+                </form>
 
-            <div>
-              <div className="flex justify-between items-center mb-4">
-                <Label>Items ({items.length})</Label>
+                {items.length > 0 ? (
+                  <DraggableItemList
+                    items={items}
+                    onReorder={setItems}
+                    onRemove={handleRemoveItem}
+                    onEdit={setEditingItemId}
+                  />
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Add {TOPIC_ITEM_COUNT} items, then drag them into any order. Each item can
+                    have an image, emoji and description.
+                  </p>
+                )}
+              </div>
+
+              {errors.length > 0 && (
+                <ul className="text-sm text-destructive space-y-1">
+                  {errors.map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex gap-3">
                 <ThemedButton
-                  size="sm"
-                  variant="outline"
-                  onClick={() => navigate(`/entity/topics/${topicId || 'new'}/items`)}
+                  gradient
+                  glow
+                  onClick={handleSave}
+                  className="flex-1"
+                  disabled={saving || errors.length > 0 || !user?.entityId}
                 >
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Items
+                  {saving ? 'Saving...' : 'Save Topic'}
+                </ThemedButton>
+                <ThemedButton variant="outline" onClick={() => navigate('/entity/topics')}>
+                  Cancel
                 </ThemedButton>
-              </div>
-              <div className="space-y-2">
-                {items.map((item, idx) => (
-                  <div key={idx} className="p-3 bg-muted rounded-lg">
-                    {item}
-                  </div>
-                ))}
               </div>
             </div>
+          </ThemedCard>
+        )}
 
-            <div className="flex gap-3">
-              <ThemedButton gradient glow onClick={handleSave} className="flex-1">
-                Save Topic
-              </ThemedButton>
-              <ThemedButton variant="outline" onClick={() => navigate('/entity/topics')}>
-                Cancel
-              </ThemedButton>
-            </div>
-          </div>
-        </ThemedCard>
+        {user?.entityId && (
+          <ItemMediaDialog
+            item={items.find((item) => item.id === editingItemId) ?? null}
+            entityId={user.entityId}
+            onClose={() => setEditingItemId(null)}
+            onSave={handleItemMedia}
+          />
+        )}
       </div>
     </div>
   );
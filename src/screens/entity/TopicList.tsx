@@ -2,15 +2,67 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { ThemedButton } from '@/components/ThemedButton';
 import { ThemedCard } from '@/components/ThemedCard';
-import { Plus, ArrowLeft, Edit, Trash } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { TopicImportDialog } from '@/components/entity/TopicImportDialog';
+import { TopicSubmissions } from '@/components/entity/TopicSubmissions';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTopics, useTopicActions, type TopicSummary } from '@/hooks/useTopics';
+import { TOPIC_ITEM_COUNT } from '@/lib/topics';
+import { serializeTopics, type TopicFileFormat } from '@/lib/topicTransfer';
+import { Plus, ArrowLeft, Edit, Trash, Upload, Download } from 'lucide-react';
+
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
 
 export const TopicList = () => {
   const navigate = useNavigate();
-  const [topics] = useState([
-    { id: '1', title: 'Movies 2023', itemCount: 10 },
-    { id: '2', title: 'Tech Giants', itemCount: 8 },
-    { id: '3', title: 'Classic Books', itemCount: 12 },
-  ]);
+  const { user } = useAuth();
+  const { topics, loading, refetch } = useTopics(user?.entityId);
+  const { deleteTopic, fetchLibrary } = useTopicActions();
+  const [pendingDelete, setPendingDelete] = useState<TopicSummary | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+
+    const deleted = await deleteTopic(pendingDelete.id);
+    setPendingDelete(null);
+    if (deleted) refetch();
+  };
+
+  const handleExport = async (format: TopicFileFormat) => {
+    if (!user?.entityId) return;
+
+    const library = await fetchLibrary(user.entityId);
+    if (!library) return;
+
+    downloadFile(
+      `knowsy-topics.${format}`,
+      serializeTopics(library, format),
+      format === 'json' ? 'application/json' : 'text/csv'
+    );
+  };
 
   return (
     <div className="min-h-screen bg-background p-6">
@@ -23,37 +75,106 @@ export const TopicList = () => {
             <h1 className="text-4xl font-bold gradient-text mb-2">Topics</h1>
             <p className="text-muted-foreground">Manage your quiz topics</p>
           </div>
-          <ThemedButton gradient glow onClick={() => navigate('/entity/topics/new')}>
+          <ThemedButton variant="outline" onClick={() => setImportOpen(true)} disabled={!user?.entityId}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </ThemedButton>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <ThemedButton variant="outline" disabled={!user?.entityId || topics.length === 0}>
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </ThemedButton>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuItem onClick={() => handleExport('json')}>JSON, with item media</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('csv')}>CSV, item names only</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <ThemedButton
+            gradient
+            glow
+            onClick={() => navigate('/entity/topics/new')}
+            disabled={!user?.entityId}
+          >
             <Plus className="w-4 h-4 mr-2" />
             New Topic
           </ThemedButton>
         </div>
 
-        <div className="space-y-4">
-          {topics.map((topic) => (
-            <ThemedCard key={topic.id} className="hover:scale-[1.02] transition-transform">
-              <div className="flex items-center justify-between p-4">
-                <div>
-                  <h3 className="text-xl font-bold text-foreground">{topic.title}</h3>
-                  <p className="text-muted-foreground">{topic.itemCount} items</p>
-                </div>
-                <div className="flex gap-2">
-                  <ThemedButton
-                    variant="outline"
-                    size="icon"
-                    onClick={() => navigate(`/entity/topics/${topic.id}`)}
-                  >
-                    <Edit className="w-4 h-4" />
-                  </ThemedButton>
-                  <ThemedButton variant="outline" size="icon">
-                    <Trash className="w-4 h-4" />
-                  </ThemedButton>
+        {user?.entityId && <TopicSubmissions entityId={user.entityId} onApproved={refetch} />}
+
+        {!user?.entityId ? (
+          <ThemedCard>
+            <p className="text-muted-foreground p-4">
+              Your account isn't managing a space yet, so there is no topic library to edit.
+            </p>
+          </ThemedCard>
+        ) : loading ? (
+          <p className="text-muted-foreground">Loading topics...</p>
+        ) : topics.length === 0 ? (
+          <ThemedCard>
+            <p className="text-muted-foreground p-4">
+              No topics yet. Create one with {TOPIC_ITEM_COUNT} items for players to rank.
+            </p>
+          </ThemedCard>
+        ) : (
+          <div className="space-y-4">
+            {topics.map((topic) => (
+              <ThemedCard key={topic.id} className="hover:scale-[1.02] transition-transform">
+                <div className="flex items-center justify-between p-4">
+                  <div>
+                    <h3 className="text-xl font-bold text-foreground">{topic.name}</h3>
+                    <p className="text-muted-foreground">
+                      {topic.item_count} items
+                      {topic.item_count !== TOPIC_ITEM_COUNT && (
+                        <span className="text-destructive"> · needs {TOPIC_ITEM_COUNT}</span>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <ThemedButton
+                      variant="outline"
+                      size="icon"
+                      onClick={() => navigate(`/entity/topics/${topic.id}`)}
+                    >
+                      <Edit className="w-4 h-4" />
+                    </ThemedButton>
+                    <ThemedButton variant="outline" size="icon" onClick={() => setPendingDelete(topic)}>
+                      <Trash className="w-4 h-4" />
+                    </ThemedButton>
+                  </div>
                 </div>
-              </div>
-            </ThemedCard>
-          ))}
-        </div>
+              </ThemedCard>
+            ))}
+          </div>
+        )}
       </div>
+
+      {user?.entityId && (
+        <TopicImportDialog
+          open={importOpen}
+          onOpenChange={setImportOpen}
+          entityId={user.entityId}
+          onImported={refetch}
+        />
+      )}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{pendingDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Players will no longer be able to pick this topic. If it has been played before, it is
+              archived so past rounds keep their results.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -1,10 +1,133 @@
+import { useEffect, useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { ThemedButton } from '@/components/ThemedButton';
 import { ThemedCard } from '@/components/ThemedCard';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useGame } from '@/contexts/GameContext';
+import { useGameState } from '@/hooks/useGameState';
+import { useGameActions } from '@/hooks/useGameActions';
+import { useToast } from '@/hooks/use-toast';
+import {
+  scoringStrategies,
+  vipPredictabilityReward,
+  type RankedItem,
+  type ScoringSettings,
+  type ScoringStrategyId,
+} from '@/lib/scoring';
 import { ArrowLeft } from 'lucide-react';
 
+// Sample round used to preview how each strategy scores a near miss
+const previewItems = ['Pizza', 'Tacos', 'Ramen', 'Pasta', 'Fries'];
+const previewRanking: RankedItem[] = previewItems.map((name, index) => ({
+  itemId: name,
+  position: index + 1,
+}));
+const previewGuess: RankedItem[] = ['Pizza', 'Ramen', 'Tacos', 'Fries', 'Pasta'].map((name, index) => ({
+  itemId: name,
+  position: index + 1,
+}));
+
+type EditableSettings = ScoringSettings & {
+  target_score: number;
+  guess_quorum_percent: number;
+  guess_timeout_seconds: number | null;
+  ranking_timeout_seconds: number | null;
+  reveal_step_seconds: number | null;
+  items_per_round: number | null;
+  ranked_positions: number | null;
+};
+
+const numberFields: { key: keyof EditableSettings; label: string }[] = [
+  { key: 'target_score', label: 'Target Score' },
+  { key: 'points_per_correct', label: 'Points per Correct' },
+  { key: 'bonus_all_correct', label: 'All-Correct Bonus' },
+  { key: 'penalty_all_wrong', label: 'All-Wrong Penalty' },
+  { key: 'vip_predictability_bonus', label: 'VIP Predictability Bonus' },
+];
+
+// Per-phase time limits; left empty means the phase waits indefinitely
+const timerFields: { key: keyof EditableSettings; label: string }[] = [
+  { key: 'ranking_timeout_seconds', label: 'VIP Ranking (seconds)' },
+  { key: 'guess_timeout_seconds', label: 'Guessing (seconds)' },
+  { key: 'reveal_step_seconds', label: 'Each Reveal Step (seconds)' },
+];
+
+// How much of the topic each round uses; left empty means all of it
+const roundSizeFields: { key: keyof EditableSettings; label: string; min: number }[] = [
+  { key: 'items_per_round', label: 'Items per Round', min: 2 },
+  { key: 'ranked_positions', label: 'Positions Ranked', min: 1 },
+];
+
 export const GameSettings = () => {
   const navigate = useNavigate();
+  const { gameId, isCreator } = useGame();
+  const { game, loading } = useGameState();
+  const gameActions = useGameActions();
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<EditableSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!game || settings) return;
+    setSettings({
+      target_score: game.target_score,
+      scoring_strategy: game.scoring_strategy,
+      points_per_correct: game.points_per_correct,
+      bonus_all_correct: game.bonus_all_correct,
+      penalty_all_wrong: game.penalty_all_wrong,
+      scoring_top_n: game.scoring_top_n,
+      vip_predictability_bonus: game.vip_predictability_bonus,
+      guess_quorum_percent: game.guess_quorum_percent,
+      guess_timeout_seconds: game.guess_timeout_seconds,
+      ranking_timeout_seconds: game.ranking_timeout_seconds,
+      reveal_step_seconds: game.reveal_step_seconds,
+      items_per_round: game.items_per_round,
+      ranked_positions: game.ranked_positions,
+    });
+  }, [game, settings]);
+
+  const preview = useMemo(() => {
+    if (!settings) return null;
+    const score = scoringStrategies[settings.scoring_strategy].scorePlayer(
+      previewRanking,
+      previewGuess,
+      settings
+    );
+    return {
+      ...score,
+      total: score.basePoints + score.bonus + score.penalty,
+      vipReward: vipPredictabilityReward([score.accuracy], settings),
+    };
+  }, [settings]);
+
+  const roundSizeError =
+    settings?.items_per_round != null &&
+    settings.ranked_positions != null &&
+    settings.ranked_positions > settings.items_per_round
+      ? 'Cannot rank more positions than there are items'
+      : null;
+
+  const updateField = (key: keyof EditableSettings, value: number | string | null) => {
+    setSettings((prev) => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!gameId || !settings || roundSizeError) return;
+
+    setSaving(true);
+    const saved = await gameActions.updateGameSettings(gameId, settings);
+    setSaving(false);
+
+    if (saved) {
+      toast({
+        title: 'Settings Saved',
+        description: 'Changes apply from the next round',
+      });
+      navigate(-1);
+    }
+  };
 
   return (
     <div className="min-h-screen bg-background p-6">
@@ -15,9 +138,169 @@ export const GameSettings = () => {
           </ThemedButton>
           <h1 className="text-4xl font-bold gradient-text">Game Settings</h1>
         </div>
-        <ThemedCard glow>
-          <p className="text-muted-foreground">Screen: Game Settings - Feature coming soon</p>
-        </ThemedCard>
+
+        {loading || !settings ? (
+          <ThemedCard glow>
+            <p className="text-muted-foreground">Loading settings...</p>
+          </ThemedCard>
+        ) : (
+          <div className="space-y-6">
+            <ThemedCard glow>
+              <div className="space-y-6">
+                <div>
+                  <Label htmlFor="strategy">Scoring Strategy</Label>
+                  <Select
+                    value={settings.scoring_strategy}
+                    onValueChange={(v) => updateField('scoring_strategy', v as ScoringStrategyId)}
+                    disabled={!isCreator}
+                  >
+                    <SelectTrigger id="strategy">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(scoringStrategies).map((strategy) => (
+                        <SelectItem key={strategy.id} value={strategy.id}>
+                          {strategy.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground mt-2">
+                    {scoringStrategies[settings.scoring_strategy].description}
+                  </p>
+                </div>
+
+                {settings.scoring_strategy === 'top_n' && (
+                  <div>
+                    <Label htmlFor="scoring_top_n">Top Picks Counted</Label>
+                    <Input
+                      id="scoring_top_n"
+                      type="number"
+                      min={1}
+                      value={settings.scoring_top_n}
+                      // At least one pick always counts; an emptied field falls back to 1
+                      onChange={(e) => updateField('scoring_top_n', Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                      disabled={!isCreator}
+                    />
+                  </div>
+                )}
+
+                <div className="grid sm:grid-cols-2 gap-4">
+                  {numberFields.map((field) => (
+                    <div key={field.key}>
+                      <Label htmlFor={field.key}>{field.label}</Label>
+                      <Input
+                        id={field.key}
+                        type="number"
+                        value={settings[field.key] as number}
+                        onChange={(e) => updateField(field.key, Number(e.target.value))}
+                        disabled={!isCreator}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </ThemedCard>
+
+            <ThemedCard title="Guessing" description="When the reveal starts on its own">
+              <div>
+                <Label htmlFor="guess_quorum_percent">Players Needed (%)</Label>
+                <Input
+                  id="guess_quorum_percent"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={settings.guess_quorum_percent}
+                  onChange={(e) => updateField('guess_quorum_percent', Number(e.target.value))}
+                  disabled={!isCreator}
+                />
+              </div>
+            </ThemedCard>
+
+            <ThemedCard title="Time Limits" description="Leave empty for no limit">
+              <div className="grid sm:grid-cols-3 gap-4">
+                {timerFields.map((field) => (
+                  <div key={field.key}>
+                    <Label htmlFor={field.key}>{field.label}</Label>
+                    <Input
+                      id={field.key}
+                      type="number"
+                      min={1}
+                      placeholder="No limit"
+                      value={(settings[field.key] as number | null) ?? ''}
+                      onChange={(e) =>
+                        updateField(field.key, e.target.value ? Number(e.target.value) : null)
+                      }
+                      disabled={!isCreator}
+                    />
+                  </div>
+                ))}
+              </div>
+            </ThemedCard>
+
+            <ThemedCard title="Round Size" description="Leave empty to deal and rank the whole topic">
+              <div className="grid sm:grid-cols-2 gap-4">
+                {roundSizeFields.map((field) => (
+                  <div key={field.key}>
+                    <Label htmlFor={field.key}>{field.label}</Label>
+                    <Input
+                      id={field.key}
+                      type="number"
+                      min={field.min}
+                      placeholder="All"
+                      value={(settings[field.key] as number | null) ?? ''}
+                      onChange={(e) =>
+                        updateField(field.key, e.target.value ? Number(e.target.value) : null)
+                      }
+                      disabled={!isCreator}
+                    />
+                  </div>
+                ))}
+              </div>
+              {roundSizeError && <p className="text-sm text-destructive mt-3">{roundSizeError}</p>}
+            </ThemedCard>
+
+            {preview && (
+              <ThemedCard title="Preview" description="A player swaps two neighbours twice on a 5-item round">
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Base points</span>
+                    <span className="font-semibold">{preview.basePoints}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Bonus</span>
+                    <span className="font-semibold">{preview.bonus}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Penalty</span>
+                    <span className="font-semibold">{preview.penalty}</span>
+                  </div>
+                  <div className="flex justify-between border-t border-border pt-2">
+                    <span className="font-semibold">Player total</span>
+                    <span className="font-bold text-primary">{preview.total}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">VIP reward</span>
+                    <span className="font-semibold">{preview.vipReward}</span>
+                  </div>
+                </div>
+              </ThemedCard>
+            )}
+
+            {isCreator && (
+              <ThemedButton
+                gradient
+                glow
+                size="lg"
+                className="w-full"
+                onClick={handleSave}
+                disabled={saving || !!roundSizeError}
+              >
+                {saving ? 'Saving...' : 'Save Settings'}
+              </ThemedButton>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
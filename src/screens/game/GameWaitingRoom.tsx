@@ -1,46 +1,25 @@
-import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useGame } from '@/contexts/GameContext';
-import { useGameState } from '@/hooks/useGameState';
+import { useGameState, type PresenceStatus } from '@/hooks/useGameState';
+import { useGameActions } from '@/hooks/useGameActions';
 import { ThemedButton } from '@/components/ThemedButton';
 import { ThemedCard } from '@/components/ThemedCard';
 import { useToast } from '@/hooks/use-toast';
 import { Users, Copy, Settings } from 'lucide-react';
 
+const presenceBadges: Record<PresenceStatus, { label: string; dot: string }> = {
+  online: { label: 'Online', dot: 'bg-green-500' },
+  away: { label: 'Away', dot: 'bg-yellow-500' },
+  offline: { label: 'Offline', dot: 'bg-muted-foreground' },
+};
+
 export const GameWaitingRoom = () => {
   const navigate = useNavigate();
-  const { gameId, isVIP, isCreator } = useGame();
-  const { game, players, currentRound, loading } = useGameState(gameId);
+  const { gameId, isVIP, isCreator, gamePath } = useGame();
+  const { game, players, presenceOf, loading } = useGameState();
+  const gameActions = useGameActions();
   const { toast } = useToast();
 
-  useEffect(() => {
-    if (!gameId) {
-      navigate('/user/home');
-      return;
-    }
-
-    // Auto-navigate based on round status
-    if (currentRound) {
-      switch (currentRound.status) {
-        case 'topic_selection':
-          if (isVIP) navigate('/game/topic-selection');
-          break;
-        case 'vip_ranking':
-          if (isVIP) navigate('/game/vip-ranking');
-          break;
-        case 'player_guessing':
-          if (!isVIP) navigate('/game/guessing');
-          break;
-        case 'revealing':
-          navigate('/game/reveal');
-          break;
-        case 'complete':
-          navigate('/game/scoreboard');
-          break;
-      }
-    }
-  }, [currentRound, isVIP, gameId]);
-
   const copyCode = () => {
     if (game?.code) {
       navigator.clipboard.writeText(game.code);
@@ -51,9 +30,10 @@ export const GameWaitingRoom = () => {
     }
   };
 
+  // Moving the game to playing hands the VIP over to topic selection
   const handleStartGame = () => {
-    if (isVIP) {
-      navigate('/game/topic-selection');
+    if (isVIP && gameId) {
+      gameActions.startGame(gameId);
     }
   };
 
@@ -100,7 +80,13 @@ export const GameWaitingRoom = () => {
                   <div className="w-10 h-10 rounded-full bg-primary/20 flex items-center justify-center">
                     <span className="text-lg font-bold">{player.username[0]}</span>
                   </div>
-                  <span className="text-lg font-semibold">{player.username}</span>
+                  <div>
+                    <span className="text-lg font-semibold">{player.username}</span>
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <span className={`w-2 h-2 rounded-full ${presenceBadges[presenceOf(player.user_id)].dot}`} />
+                      {presenceBadges[presenceOf(player.user_id)].label}
+                    </span>
+                  </div>
                   {player.user_id === game.current_vip_id && (
                     <span className="ml-auto text-xs bg-primary text-primary-foreground px-2 py-1 rounded">
                       VIP
@@ -130,7 +116,7 @@ export const GameWaitingRoom = () => {
                 <ThemedButton 
                   variant="outline" 
                   className="w-full"
-                  onClick={() => navigate('/game/settings')}
+                  onClick={() => navigate(gamePath('settings'))}
                 >
                   <Settings className="w-4 h-4 mr-2" />
                   Game Settings
@@ -140,7 +126,7 @@ export const GameWaitingRoom = () => {
           </ThemedCard>
         </div>
 
-        {isVIP && !currentRound && players.length >= 2 && (
+        {isVIP && game.status === 'waiting' && players.length >= 2 && (
           <ThemedButton
             gradient
             glow
@@ -163,7 +149,9 @@ export const GameWaitingRoom = () => {
         {!isVIP && (
           <div className="text-center p-4 bg-muted/50 rounded-lg">
             <p className="text-muted-foreground">
-              Waiting for VIP to start the game...
+              {game.status === 'waiting'
+                ? 'Waiting for VIP to start the game...'
+                : 'Waiting for VIP to choose the next topic...'}
             </p>
           </div>
         )}
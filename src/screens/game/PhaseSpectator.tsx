@@ -0,0 +1,74 @@
+import { ThemedCard } from '@/components/ThemedCard';
+import { PhaseCountdown } from '@/components/game/PhaseCountdown';
+import { useGameState, selectGuessers } from '@/hooks/useGameState';
+import { useRoundSubmissions } from '@/hooks/useRoundSubmissions';
+import { usePhaseExpiry, currentPhaseDeadline } from '@/hooks/usePhaseExpiry';
+import { CheckCircle2, Clock, Eye } from 'lucide-react';
+
+// What everyone who has nothing to do right now watches: other players
+// while the VIP ranks, and the VIP while the others guess
+export const PhaseSpectator = () => {
+  const gameState = useGameState();
+  const { game, players, currentRound, presenceOf } = gameState;
+  const { submittedUserIds } = useRoundSubmissions(currentRound?.id ?? null);
+
+  usePhaseExpiry(currentRound);
+
+  if (!game || !currentRound) return null;
+
+  const isGuessing = currentRound.status === 'player_guessing';
+  const vip = players.find(p => p.user_id === currentRound.vip_id);
+  const guessers = selectGuessers(gameState);
+  const offlineGuessers = guessers.filter(
+    p => presenceOf(p.user_id) === 'offline' && !submittedUserIds.has(p.user_id)
+  );
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-2xl mx-auto">
+        <div className="text-center mb-8">
+          <Eye className="w-12 h-12 text-primary mx-auto mb-4" />
+          <h1 className="text-4xl font-bold gradient-text mb-2">
+            {isGuessing ? 'Players Are Guessing' : 'The VIP Is Ranking'}
+          </h1>
+          <p className="text-muted-foreground">
+            {isGuessing
+              ? 'Sit tight while everyone locks in their order'
+              : `${vip?.username ?? 'The VIP'} is putting the items in order`}
+          </p>
+          <PhaseCountdown deadline={currentPhaseDeadline(currentRound)} className="mt-3" />
+        </div>
+
+        {isGuessing && (
+          <ThemedCard glow>
+            <div className="space-y-3">
+              {guessers.map((player) => (
+                <div key={player.id} className="flex items-center gap-3 p-3 bg-muted rounded-lg">
+                  <span className="text-lg font-semibold">{player.username}</span>
+                  {submittedUserIds.has(player.user_id) ? (
+                    <span className="ml-auto flex items-center gap-1 text-xs text-green-500">
+                      <CheckCircle2 className="w-4 h-4" />
+                      Submitted
+                    </span>
+                  ) : (
+                    <span className="ml-auto flex items-center gap-1 text-xs text-muted-foreground">
+                      <Clock className="w-4 h-4" />
+                      {presenceOf(player.user_id) === 'offline' ? 'Offline' : 'Guessing...'}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <p className="text-sm text-muted-foreground text-center mt-6">
+              {submittedUserIds.size} of {guessers.length} players have submitted
+              {' • '}The reveal starts automatically once{' '}
+              {game.guess_quorum_percent === 100 ? 'everyone is in' : `${game.guess_quorum_percent}% are in`}
+              {offlineGuessers.length > 0 && ` • ${offlineGuessers.length} offline and not counted`}
+            </p>
+          </ThemedCard>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,15 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
 import { ThemedButton } from '@/components/ThemedButton';
 import { ThemedCard } from '@/components/ThemedCard';
 import { DraggableItemList } from '@/components/game/DraggableItemList';
-import { useGame } from '@/contexts/GameContext';
+import { PhaseCountdown } from '@/components/game/PhaseCountdown';
 import { useAuth } from '@/contexts/AuthContext';
-import { useGameState } from '@/hooks/useGameState';
+import { useGameState, useGameSelector, selectGuessers } from '@/hooks/useGameState';
 import { useGameActions } from '@/hooks/useGameActions';
-import { supabase } from '@/integrations/supabase/client';
+import { useRoundSubmissions } from '@/hooks/useRoundSubmissions';
+import { usePhaseExpiry } from '@/hooks/usePhaseExpiry';
 import { useToast } from '@/hooks/use-toast';
+import { rankedCount } from '@/lib/topics';
 
 interface TopicItem {
   id: string;
@@ -16,44 +17,32 @@ interface TopicItem {
 }
 
 export const PlayerGuessing = () => {
-  const navigate = useNavigate();
-  const { gameId, isVIP } = useGame();
   const { user } = useAuth();
-  const { currentRound, players } = useGameState(gameId);
+  const { currentRound } = useGameState();
+  const guessers = useGameSelector(selectGuessers);
   const gameActions = useGameActions();
   const { toast } = useToast();
   const [items, setItems] = useState<TopicItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
-  const [hasSubmitted, setHasSubmitted] = useState(false);
-  const [submittedCount, setSubmittedCount] = useState(0);
+  const { submittedUserIds } = useRoundSubmissions(currentRound?.id ?? null);
+  const [justSubmitted, setJustSubmitted] = useState(false);
+  const hasSubmitted = justSubmitted || (!!user && submittedUserIds.has(user.id));
+  const submittedCount = submittedUserIds.size;
+
+  usePhaseExpiry(currentRound);
+
+  const rankCount = rankedCount(currentRound?.ranked_positions, items.length);
 
   useEffect(() => {
-    if (isVIP) {
-      navigate('/game/waiting-room');
-      return;
-    }
-    if (!currentRound) {
-      navigate('/game/waiting-room');
-      return;
-    }
     fetchTopicItems();
-    checkSubmissionStatus();
-    subscribeToGuesses();
-  }, [isVIP, currentRound]);
+  }, [currentRound?.topic_id]);
 
   const fetchTopicItems = async () => {
     if (!currentRound?.topic_id) return;
 
     try {
-      const { data, error } = await supabase
-        .from('topic_items')
-        .select('*')
-        .eq('topic_id', currentRound.topic_id)
-        .order('position', { ascending: true });
-
-      if (error) throw error;
-      setItems(data || []);
+      setItems(await gameActions.fetchRoundItems(currentRound));
     } catch (error) {
       console.error('Error fetching items:', error);
       toast({
@@ -66,49 +55,6 @@ export const PlayerGuessing = () => {
     }
   };
 
-  const checkSubmissionStatus = async () => {
-    if (!currentRound || !user) return;
-
-    try {
-      const { data, error } = await supabase
-        .from('guesses')
-        .select('user_id')
-        .eq('round_id', currentRound.id);
-
-      if (error) throw error;
-
-      const userIds = data?.map(g => g.user_id) || [];
-      setHasSubmitted(userIds.includes(user.id));
-      setSubmittedCount(new Set(userIds).size);
-    } catch (error) {
-      console.error('Error checking submission:', error);
-    }
-  };
-
-  const subscribeToGuesses = () => {
-    if (!currentRound) return;
-
-    const channel = supabase
-      .channel(`guesses-${currentRound.id}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'guesses',
-          filter: `round_id=eq.${currentRound.id}`,
-        },
-        () => {
-          checkSubmissionStatus();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  };
-
   const handleReorder = (reorderedItems: TopicItem[]) => {
     setItems(reorderedItems);
   };
@@ -118,9 +64,10 @@ export const PlayerGuessing = () => {
 
     setSubmitting(true);
     try {
-      await gameActions.submitGuess(currentRound.id, user.id, items);
-      setHasSubmitted(true);
-      
+      const submitted = await gameActions.submitGuess(currentRound.id, user.id, items.slice(0, rankCount));
+      if (!submitted) return;
+      setJustSubmitted(true);
+
       toast({
         title: 'Guess Submitted',
         description: 'Waiting for other players',
@@ -145,14 +92,21 @@ export const PlayerGuessing = () => {
     );
   }
 
-  const nonVIPCount = players.filter(p => p.user_id !== currentRound?.vip_id).length;
-
   return (
     <div className="min-h-screen bg-background p-6">
       <div className="max-w-2xl mx-auto">
         <div className="text-center mb-8">
           <h1 className="text-4xl font-bold gradient-text mb-2">Guess the Ranking</h1>
-          <p className="text-muted-foreground">Drag to arrange from highest to lowest</p>
+          <p className="text-muted-foreground">
+            {rankCount < items.length
+              ? `Drag the VIP's top ${rankCount} into place, highest first`
+              : 'Drag to arrange from highest to lowest'}
+          </p>
+          <PhaseCountdown
+            deadline={currentRound?.guess_deadline}
+            label="Guessing closes in"
+            className="mt-3"
+          />
         </div>
 
         <ThemedCard glow>
@@ -160,6 +114,7 @@ export const PlayerGuessing = () => {
             items={items}
             onReorder={handleReorder}
             disabled={hasSubmitted}
+            rankedCount={rankCount}
           />
 
           <ThemedButton
@@ -176,8 +131,8 @@ export const PlayerGuessing = () => {
 
         <div className="mt-6 p-4 bg-muted/50 rounded-lg text-center">
           <p className="text-sm text-muted-foreground">
-            {submittedCount} of {nonVIPCount} players have submitted
-            {submittedCount < nonVIPCount && ' • Waiting for others...'}
+            {submittedCount} of {guessers.length} players have submitted
+            {submittedCount < guessers.length && ' • Waiting for others...'}
           </p>
         </div>
       </div>
@@ -1,11 +1,12 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
 import { ThemedButton } from '@/components/ThemedButton';
 import { ThemedCard } from '@/components/ThemedCard';
 import { RevealCard } from '@/components/game/RevealCard';
+import { PhaseCountdown } from '@/components/game/PhaseCountdown';
 import { useGame } from '@/contexts/GameContext';
 import { useGameState } from '@/hooks/useGameState';
 import { useGameActions } from '@/hooks/useGameActions';
+import { usePhaseExpiry } from '@/hooks/usePhaseExpiry';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { Trophy } from 'lucide-react';
@@ -14,6 +15,9 @@ interface RankingWithItem {
   position: number;
   item_name: string;
   item_id: string;
+  emoji: string | null;
+  image_url: string | null;
+  description: string | null;
 }
 
 interface GuessWithItem {
@@ -25,28 +29,20 @@ interface GuessWithItem {
 }
 
 export const RevealAnimation = () => {
-  const navigate = useNavigate();
-  const { gameId, isVIP } = useGame();
-  const { currentRound } = useGameState(gameId);
+  const { isVIP } = useGame();
+  const { currentRound, players } = useGameState();
   const gameActions = useGameActions();
   const { toast } = useToast();
   const [rankings, setRankings] = useState<RankingWithItem[]>([]);
   const [guesses, setGuesses] = useState<GuessWithItem[]>([]);
-  const [revealIndex, setRevealIndex] = useState(0);
   const [loading, setLoading] = useState(true);
+  const revealIndex = currentRound?.reveal_index ?? 0;
+
+  usePhaseExpiry(currentRound);
 
   useEffect(() => {
-    if (!currentRound) {
-      navigate('/game/waiting-room');
-      return;
-    }
-    if (currentRound.status !== 'revealing') {
-      navigate('/game/waiting-room');
-      return;
-    }
     fetchRevealData();
-    subscribeToReveal();
-  }, [currentRound]);
+  }, [currentRound?.id]);
 
   const fetchRevealData = async () => {
     if (!currentRound) return;
@@ -55,16 +51,19 @@ export const RevealAnimation = () => {
       // Fetch rankings with item names
       const { data: rankingsData, error: rankingsError } = await supabase
         .from('rankings')
-        .select('position, item_id, topic_items(name)')
+        .select('position, item_id, topic_items(name, emoji, image_url, description)')
         .eq('round_id', currentRound.id)
         .order('position', { ascending: true });
 
       if (rankingsError) throw rankingsError;
 
-      const formattedRankings: RankingWithItem[] = (rankingsData || []).map((r: any) => ({
+      const formattedRankings: RankingWithItem[] = (rankingsData || []).map((r) => ({
         position: r.position,
         item_name: r.topic_items?.name || 'Unknown',
         item_id: r.item_id,
+        emoji: r.topic_items?.emoji ?? null,
+        image_url: r.topic_items?.image_url ?? null,
+        description: r.topic_items?.description ?? null,
       }));
 
       setRankings(formattedRankings);
@@ -72,7 +71,7 @@ export const RevealAnimation = () => {
       // Fetch guesses with usernames
       const { data: guessesData, error: guessesError } = await supabase
         .from('guesses')
-        .select('user_id, position, item_id, is_correct, game_players(username)')
+        .select('user_id, position, item_id, is_correct')
         .eq('round_id', currentRound.id);
 
       if (guessesError) throw guessesError;
@@ -80,20 +79,21 @@ export const RevealAnimation = () => {
       const { data: itemsData } = await supabase
         .from('topic_items')
         .select('id, name')
-        .in('id', guessesData?.map((g: any) => g.item_id) || []);
+        .in('id', guessesData?.map((g) => g.item_id) || []);
 
       const itemsMap = new Map(itemsData?.map(i => [i.id, i.name]) || []);
+      // guesses has no relation to game_players, so names come from the store
+      const usernames = new Map(players.map((p) => [p.user_id, p.username]));
 
-      const formattedGuesses: GuessWithItem[] = (guessesData || []).map((g: any) => ({
+      const formattedGuesses: GuessWithItem[] = (guessesData || []).map((g) => ({
         user_id: g.user_id,
-        username: g.game_players?.username || 'Unknown',
+        username: usernames.get(g.user_id) || 'Unknown',
         position: g.position,
         item_name: itemsMap.get(g.item_id) || 'Unknown',
         is_correct: g.is_correct,
       }));
 
       setGuesses(formattedGuesses);
-      setRevealIndex(currentRound.reveal_index);
     } catch (error) {
       console.error('Error fetching reveal data:', error);
       toast({
@@ -106,44 +106,11 @@ export const RevealAnimation = () => {
     }
   };
 
-  const subscribeToReveal = () => {
-    if (!currentRound) return;
-
-    const channel = supabase
-      .channel(`round-${currentRound.id}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'rounds',
-          filter: `id=eq.${currentRound.id}`,
-        },
-        (payload: any) => {
-          setRevealIndex(payload.new.reveal_index);
-          if (payload.new.status === 'complete') {
-            navigate('/game/scoreboard');
-          }
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  };
-
   const handleRevealNext = async () => {
     if (!currentRound || revealIndex >= rankings.length) return;
 
     try {
-      const newIndex = revealIndex + 1;
-      await gameActions.updateRevealIndex(currentRound.id, newIndex);
-
-      if (newIndex >= rankings.length) {
-        await gameActions.calculateScores(currentRound.id);
-        await gameActions.updateRoundStatus(currentRound.id, 'complete');
-      }
+      await gameActions.revealNext(currentRound.id, revealIndex, rankings.length);
     } catch (error) {
       console.error('Error revealing next:', error);
       toast({
@@ -169,12 +136,17 @@ export const RevealAnimation = () => {
           <Trophy className="w-16 h-16 text-primary mx-auto mb-4 animate-bounce" />
           <h1 className="text-4xl font-bold gradient-text mb-2">The Results Are In!</h1>
           <p className="text-muted-foreground">Revealing the correct ranking...</p>
+          <PhaseCountdown
+            deadline={currentRound?.reveal_step_deadline}
+            label={revealIndex < rankings.length ? 'Next reveal in' : 'Scoreboard in'}
+            className="mt-3"
+          />
         </div>
 
         <div className="space-y-6 mb-8">
           {rankings.map((ranking, index) => {
             const isRevealed = index < revealIndex;
-            const positionGuesses = guesses.filter(g => g.position === ranking.position + 1);
+            const positionGuesses = guesses.filter(g => g.position === ranking.position);
 
             return (
               <div key={ranking.position}>
@@ -185,14 +157,15 @@ export const RevealAnimation = () => {
                   }`}
                 >
                   <div className="p-6">
-                    <div className="flex items-center gap-4 mb-4">
-                      <div className="w-16 h-16 rounded-xl bg-gradient-to-br from-primary to-secondary flex items-center justify-center text-white font-bold text-2xl">
-                        {ranking.position + 1}
-                      </div>
-                      <span className="text-2xl font-bold flex-1">
-                        {isRevealed ? ranking.item_name : '???'}
-                      </span>
-                    </div>
+                    <RevealCard
+                      position={ranking.position}
+                      itemName={isRevealed ? ranking.item_name : undefined}
+                      emoji={ranking.emoji}
+                      imageUrl={ranking.image_url}
+                      description={ranking.description}
+                      isRevealed={isRevealed}
+                      isCorrect={null}
+                    />
 
                     {isRevealed && positionGuesses.length > 0 && (
                       <div className="space-y-2 mt-4 pt-4 border-t border-border">
@@ -225,16 +198,21 @@ export const RevealAnimation = () => {
           </ThemedButton>
         )}
 
+        {/* Scoring starts on the last reveal; the VIP can retry if it failed */}
         {revealIndex >= rankings.length && (
-          <ThemedButton
-            gradient
-            glow
-            size="lg"
-            className="w-full"
-            onClick={() => navigate('/game/scoreboard')}
-          >
-            View Scoreboard
-          </ThemedButton>
+          isVIP ? (
+            <ThemedButton
+              gradient
+              glow
+              size="lg"
+              className="w-full"
+              onClick={() => currentRound && gameActions.scoreRound(currentRound.id)}
+            >
+              Finish Round
+            </ThemedButton>
+          ) : (
+            <p className="text-center text-muted-foreground">Tallying scores...</p>
+          )
         )}
       </div>
     </div>
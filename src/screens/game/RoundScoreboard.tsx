@@ -1,12 +1,12 @@
 import { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
 import { ThemedButton } from '@/components/ThemedButton';
 import { ThemedCard } from '@/components/ThemedCard';
 import { useGame } from '@/contexts/GameContext';
 import { useGameState } from '@/hooks/useGameState';
 import { useGameActions } from '@/hooks/useGameActions';
+import { useRoundScores, roundPoints } from '@/hooks/useRoundScores';
 import { useToast } from '@/hooks/use-toast';
-import { Crown, Trophy } from 'lucide-react';
+import { ArrowDown, ArrowUp, Crown, Minus, Trophy } from 'lucide-react';
 
 interface PlayerWithRoundPoints {
   id: string;
@@ -14,38 +14,61 @@ interface PlayerWithRoundPoints {
   score: number;
   previousScore: number;
   roundPoints: number;
+  basePoints: number;
+  bonus: number;
+  penalty: number;
+  rankChange: number;
 }
 
 export const RoundScoreboard = () => {
-  const navigate = useNavigate();
-  const { gameId, isVIP } = useGame();
-  const { game, players, currentRound } = useGameState(gameId);
+  const { gameId } = useGame();
+  const { game, players, currentRound } = useGameState();
+  const { scores, loading: scoresLoading } = useRoundScores(currentRound?.id ?? null);
   const gameActions = useGameActions();
   const { toast } = useToast();
   const [playersWithPoints, setPlayersWithPoints] = useState<PlayerWithRoundPoints[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    if (!currentRound || currentRound.status !== 'complete') {
-      navigate('/game/waiting-room');
-      return;
-    }
+    if (scoresLoading) return;
     calculateRoundPoints();
-  }, [currentRound, players]);
+  }, [currentRound, players, scores, scoresLoading]);
 
-  const calculateRoundPoints = async () => {
+  const calculateRoundPoints = () => {
     try {
-      // For simplicity, we'll calculate round points as current score differences
-      // In production, you'd fetch score history from a separate table
-      const sorted = [...players]
-        .map(p => ({
+      const scoresByUser = new Map(scores.map(s => [s.user_id, s]));
+
+      const withPoints = players.map(p => {
+        const entry = scoresByUser.get(p.user_id);
+        const points = entry ? roundPoints(entry) : 0;
+        const score = entry ? entry.total_after : p.score;
+
+        return {
           id: p.id,
           username: p.username,
-          score: p.score,
-          previousScore: 0, // Would come from score history
-          roundPoints: p.score, // Simplified
-        }))
-        .sort((a, b) => b.score - a.score);
+          score,
+          previousScore: score - points,
+          roundPoints: points,
+          basePoints: entry?.base_points ?? 0,
+          bonus: entry?.bonus ?? 0,
+          penalty: entry?.penalty ?? 0,
+          rankChange: 0,
+        };
+      });
+
+      // Rank movement compares standings before and after this round
+      const previousRanks = new Map(
+        [...withPoints]
+          .sort((a, b) => b.previousScore - a.previousScore)
+          .map((p, index) => [p.id, index])
+      );
+
+      const sorted = withPoints
+        .sort((a, b) => b.score - a.score)
+        .map((p, index) => ({
+          ...p,
+          rankChange: (previousRanks.get(p.id) ?? index) - index,
+        }));
 
       setPlayersWithPoints(sorted);
     } catch (error) {
@@ -56,17 +79,16 @@ export const RoundScoreboard = () => {
   };
 
   const handleNextRound = async () => {
-    if (!gameId) return;
+    if (!currentRound) return;
 
     try {
-      await gameActions.rotateVIP(gameId);
-      
+      const started = await gameActions.startNextRound(currentRound.id);
+      if (!started) throw new Error('Could not start the next round');
+
       toast({
         title: 'Next Round',
         description: 'New VIP selected',
       });
-      
-      navigate('/game/waiting-room');
     } catch (error) {
       console.error('Error starting next round:', error);
       toast({
@@ -82,7 +104,6 @@ export const RoundScoreboard = () => {
 
     try {
       await gameActions.endGame(gameId);
-      navigate('/game/game-over');
     } catch (error) {
       console.error('Error ending game:', error);
       toast({
@@ -100,6 +121,8 @@ export const RoundScoreboard = () => {
 
   const hasWinner = checkForWinner();
 
+  const formatPoints = (points: number) => (points >= 0 ? `+${points}` : `${points}`);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background p-6 flex items-center justify-center">
@@ -138,9 +161,25 @@ export const RoundScoreboard = () => {
                   </div>
                 </div>
                 <div className="flex-1">
-                  <h3 className="text-xl font-bold">{player.username}</h3>
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-xl font-bold">{player.username}</h3>
+                    {player.rankChange > 0 && (
+                      <ArrowUp className="w-4 h-4 text-green-500" />
+                    )}
+                    {player.rankChange < 0 && (
+                      <ArrowDown className="w-4 h-4 text-red-500" />
+                    )}
+                    {player.rankChange === 0 && (
+                      <Minus className="w-4 h-4 text-muted-foreground" />
+                    )}
+                  </div>
                   <p className="text-sm text-muted-foreground">
-                    +{player.roundPoints} points this round
+                    {formatPoints(player.roundPoints)} points this round
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatPoints(player.basePoints)} correct
+                    {player.bonus !== 0 && ` • ${formatPoints(player.bonus)} all-correct bonus`}
+                    {player.penalty !== 0 && ` • ${formatPoints(player.penalty)} all-wrong penalty`}
                   </p>
                 </div>
                 <div className="text-right">
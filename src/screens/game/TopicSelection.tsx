@@ -1,58 +1,86 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useMemo } from 'react';
 import { ThemedButton } from '@/components/ThemedButton';
 import { ThemedCard } from '@/components/ThemedCard';
+import { CustomTopicDialog } from '@/components/game/CustomTopicDialog';
+import { Input } from '@/components/ui/input';
 import { useGame } from '@/contexts/GameContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { useGameActions } from '@/hooks/useGameActions';
 import { useGameState } from '@/hooks/useGameState';
 import { useToast } from '@/hooks/use-toast';
-import { Edit } from 'lucide-react';
+import { filterTopics } from '@/lib/topicSearch';
+import { TOPIC_CATEGORIES } from '@/lib/topics';
+import { cn } from '@/lib/utils';
+import { Edit, PenLine, Search, Shuffle } from 'lucide-react';
 
-interface Topic {
-  id: string;
-  name: string;
-  is_editable: boolean;
-  created_by: string | null;
-  item_count?: number;
-}
+type Topic = Pick<
+  Tables<'topics'>,
+  'id' | 'name' | 'is_editable' | 'created_by' | 'entity_id' | 'category' | 'tags'
+> & {
+  item_count: number;
+};
+
+const chipClass = (active: boolean) =>
+  cn(
+    'px-3 py-1 rounded-full text-sm font-semibold transition-colors',
+    active ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground hover:bg-muted/80'
+  );
 
 export const TopicSelection = () => {
-  const navigate = useNavigate();
-  const { gameId, isVIP } = useGame();
+  const { gameId } = useGame();
   const { user } = useAuth();
-  const { game } = useGameState(gameId);
+  const { game } = useGameState();
   const gameActions = useGameActions();
   const { toast } = useToast();
   const [topics, setTopics] = useState<Topic[]>([]);
   const [loading, setLoading] = useState(true);
+  const [playedIds, setPlayedIds] = useState<Set<string>>(new Set());
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<string | null>(null);
+  const [hidePlayed, setHidePlayed] = useState(true);
+  const [customOpen, setCustomOpen] = useState(false);
 
   useEffect(() => {
-    if (!isVIP) {
-      navigate('/game/waiting-room');
-      return;
-    }
     fetchTopics();
-  }, [isVIP]);
+  }, [game?.entity_id, gameId, user?.id]);
 
   const fetchTopics = async () => {
     try {
-      const { data, error } = await supabase
-        .from('topics')
-        .select('*, topic_items(count)');
+      const [{ data, error }, { data: played, error: playedError }] = await Promise.all([
+        supabase
+          .from('topics')
+          .select('*, topic_items(count)')
+          .is('archived_at', null)
+          .is('topic_items.round_id', null)
+          // The built-in library plus the game's own space
+          .or(game?.entity_id ? `entity_id.is.null,entity_id.eq.${game.entity_id}` : 'entity_id.is.null')
+          .order('name', { ascending: true }),
+        // Topics this game has already been through
+        supabase.from('rounds').select('topic_id').eq('game_id', gameId ?? ''),
+      ]);
       
       if (error) throw error;
+      if (playedError) throw playedError;
       
-      const formattedTopics: Topic[] = data.map((topic: any) => ({
-        id: topic.id,
-        name: topic.name,
-        is_editable: topic.is_editable,
-        created_by: topic.created_by,
-        item_count: topic.topic_items[0]?.count || 0,
-      }));
+      // Another player's personal topic is visible once played with them, but
+      // it is not ours to pick
+      const formattedTopics: Topic[] = data
+        .filter((topic) => topic.entity_id || !topic.created_by || topic.created_by === user?.id)
+        .map((topic) => ({
+          id: topic.id,
+          name: topic.name,
+          is_editable: topic.is_editable,
+          created_by: topic.created_by,
+          entity_id: topic.entity_id,
+          category: topic.category,
+          tags: topic.tags,
+          item_count: topic.topic_items[0]?.count || 0,
+        }));
       
       setTopics(formattedTopics);
+      setPlayedIds(new Set((played || []).map((round) => round.topic_id)));
     } catch (error) {
       console.error('Error fetching topics:', error);
       toast({
@@ -65,14 +93,35 @@ export const TopicSelection = () => {
     }
   };
 
+  // Known categories first, in their usual order, then any custom ones
+  const categories = useMemo(() => {
+    const present = new Set(topics.map((topic) => topic.category).filter((c): c is string => !!c));
+    return [
+      ...TOPIC_CATEGORIES.filter((c) => present.has(c)),
+      ...[...present].filter((c) => !TOPIC_CATEGORIES.includes(c)).sort(),
+    ];
+  }, [topics]);
+
+  const visibleTopics = useMemo(
+    () => filterTopics(topics, { query, category, excludeIds: hidePlayed ? playedIds : undefined }),
+    [topics, query, category, hidePlayed, playedIds]
+  );
+
+  const personalTopicNames = useMemo(
+    () => topics.filter((topic) => !topic.entity_id && topic.created_by === user?.id).map((topic) => topic.name),
+    [topics, user?.id]
+  );
+
+  const handleRandomTopic = () => {
+    if (visibleTopics.length === 0) return;
+    handleTopicSelect(visibleTopics[Math.floor(Math.random() * visibleTopics.length)].id);
+  };
+
   const handleTopicSelect = async (topicId: string) => {
     if (!gameId || !user) return;
 
     try {
-      const round = await gameActions.createRound(gameId, topicId, user.id);
-      if (round) {
-        navigate('/game/vip-ranking');
-      }
+      await gameActions.createRound(gameId, topicId, user.id);
     } catch (error) {
       console.error('Error selecting topic:', error);
       toast({
@@ -92,7 +141,6 @@ export const TopicSelection = () => {
         title: 'VIP Passed',
         description: 'Next player is now VIP',
       });
-      navigate('/game/waiting-room');
     } catch (error) {
       console.error('Error passing turn:', error);
       toast({
@@ -119,8 +167,47 @@ export const TopicSelection = () => {
           <p className="text-muted-foreground">VIP: Select the topic for this round</p>
         </div>
 
+        <div className="flex gap-2 mb-4">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search topics or tags"
+              className="pl-9"
+            />
+          </div>
+          <ThemedButton variant="outline" onClick={handleRandomTopic} disabled={visibleTopics.length === 0}>
+            <Shuffle className="w-4 h-4 mr-2" />
+            Random
+          </ThemedButton>
+          <ThemedButton variant="outline" onClick={() => setCustomOpen(true)}>
+            <PenLine className="w-4 h-4 mr-2" />
+            Create
+          </ThemedButton>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          <button className={chipClass(category === null)} onClick={() => setCategory(null)}>
+            All
+          </button>
+          {categories.map((c) => (
+            <button key={c} className={chipClass(category === c)} onClick={() => setCategory(category === c ? null : c)}>
+              {c}
+            </button>
+          ))}
+          {playedIds.size > 0 && (
+            <button className={chipClass(hidePlayed)} onClick={() => setHidePlayed((hide) => !hide)}>
+              Hide played ({playedIds.size})
+            </button>
+          )}
+        </div>
+
         <div className="space-y-4 mb-6">
-          {topics.map((topic) => (
+          {visibleTopics.length === 0 && (
+            <p className="text-center text-muted-foreground">No topics match your search</p>
+          )}
+          {visibleTopics.map((topic) => (
             <ThemedCard key={topic.id} glow className="hover:scale-[1.02] transition-transform">
               <button 
                 onClick={() => handleTopicSelect(topic.id)} 
@@ -128,11 +215,23 @@ export const TopicSelection = () => {
               >
                 <div>
                   <h3 className="text-2xl font-bold">{topic.name}</h3>
-                  <p className="text-muted-foreground">{topic.item_count} items to rank</p>
+                  <p className="text-muted-foreground">
+                    {topic.item_count} items to rank
+                    {topic.category && ` · ${topic.category}`}
+                    {!topic.entity_id && topic.created_by === user?.id && ' · Your topic'}
+                  </p>
+                  {topic.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {topic.tags.map((tag) => (
+                        <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground">
+                          #{tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
-                {topic.is_editable && game?.creator_id === user?.id && (
-                  <Edit className="w-5 h-5 text-primary" />
-                )}
+                {/* The VIP can customise these items before ranking */}
+                {topic.is_editable && <Edit className="w-5 h-5 text-primary" />}
               </button>
             </ThemedCard>
           ))}
@@ -147,6 +246,17 @@ export const TopicSelection = () => {
           Pass Turn
         </ThemedButton>
       </div>
+
+      {user && (
+        <CustomTopicDialog
+          open={customOpen}
+          onOpenChange={setCustomOpen}
+          userId={user.id}
+          entityId={game?.entity_id ?? null}
+          personalTopicNames={personalTopicNames}
+          onCreated={handleTopicSelect}
+        />
+      )}
     </div>
   );
 };
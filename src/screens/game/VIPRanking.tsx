@@ -1,13 +1,16 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
 import { ThemedButton } from '@/components/ThemedButton';
 import { ThemedCard } from '@/components/ThemedCard';
 import { DraggableItemList } from '@/components/game/DraggableItemList';
-import { useGame } from '@/contexts/GameContext';
+import { PhaseCountdown } from '@/components/game/PhaseCountdown';
+import { RoundItemEditor } from '@/components/game/RoundItemEditor';
 import { useGameState } from '@/hooks/useGameState';
 import { useGameActions } from '@/hooks/useGameActions';
+import { usePhaseExpiry } from '@/hooks/usePhaseExpiry';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { rankedCount } from '@/lib/topics';
+import { Edit } from 'lucide-react';
 
 interface TopicItem {
   id: string;
@@ -15,39 +18,36 @@ interface TopicItem {
 }
 
 export const VIPRanking = () => {
-  const navigate = useNavigate();
-  const { gameId, isVIP } = useGame();
-  const { currentRound } = useGameState(gameId);
+  const { currentRound } = useGameState();
   const gameActions = useGameActions();
   const { toast } = useToast();
   const [items, setItems] = useState<TopicItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
+  const [editable, setEditable] = useState(false);
+  const [editing, setEditing] = useState(false);
+
+  usePhaseExpiry(currentRound);
+
+  const rankCount = rankedCount(currentRound?.ranked_positions, items.length);
 
   useEffect(() => {
-    if (!isVIP) {
-      navigate('/game/waiting-room');
-      return;
-    }
-    if (!currentRound) {
-      navigate('/game/topic-selection');
-      return;
-    }
     fetchTopicItems();
-  }, [isVIP, currentRound]);
+  }, [currentRound?.topic_id]);
 
   const fetchTopicItems = async () => {
     if (!currentRound?.topic_id) return;
 
     try {
-      const { data, error } = await supabase
-        .from('topic_items')
-        .select('*')
-        .eq('topic_id', currentRound.topic_id)
-        .order('position', { ascending: true });
+      const [roundItems, { data: topic, error }] = await Promise.all([
+        gameActions.fetchRoundItems(currentRound),
+        supabase.from('topics').select('is_editable').eq('id', currentRound.topic_id).single(),
+      ]);
 
       if (error) throw error;
-      setItems(data || []);
+      setEditable(topic.is_editable);
+      setItems(roundItems);
+      saveDraft(roundItems);
     } catch (error) {
       console.error('Error fetching items:', error);
       toast({
@@ -60,8 +60,30 @@ export const VIPRanking = () => {
     }
   };
 
+  // Keep the server's copy current so the ranking survives a timeout
+  const saveDraft = (orderedItems: TopicItem[]) => {
+    if (!currentRound || orderedItems.length === 0) return;
+    gameActions.saveRankingDraft(
+      currentRound.id,
+      currentRound.vip_id,
+      orderedItems.map((item) => item.id)
+    );
+  };
+
   const handleReorder = (reorderedItems: TopicItem[]) => {
     setItems(reorderedItems);
+    saveDraft(reorderedItems);
+  };
+
+  const handleCustomize = async (names: string[]) => {
+    if (!currentRound) return false;
+
+    const customized = await gameActions.customizeRoundItems(currentRound.id, names);
+    if (!customized) return false;
+
+    setItems(customized);
+    saveDraft(customized);
+    return true;
   };
 
   const handleSubmit = async () => {
@@ -69,15 +91,13 @@ export const VIPRanking = () => {
 
     setSubmitting(true);
     try {
-      await gameActions.submitRanking(currentRound.id, items);
-      await gameActions.updateRoundStatus(currentRound.id, 'player_guessing');
-      
+      const submitted = await gameActions.submitRanking(currentRound.id, items.slice(0, rankCount));
+      if (!submitted) return;
+
       toast({
         title: 'Ranking Submitted',
         description: 'Waiting for players to guess',
       });
-      
-      navigate('/game/waiting-room');
     } catch (error) {
       console.error('Error submitting ranking:', error);
       toast({
@@ -103,25 +123,47 @@ export const VIPRanking = () => {
       <div className="max-w-2xl mx-auto">
         <div className="text-center mb-8">
           <h1 className="text-4xl font-bold gradient-text mb-2">Rank the Items</h1>
-          <p className="text-muted-foreground">As VIP, set the correct order from highest to lowest</p>
+          <p className="text-muted-foreground">
+            {rankCount < items.length
+              ? `As VIP, pick your top ${rankCount} from highest to lowest`
+              : 'As VIP, set the correct order from highest to lowest'}
+          </p>
+          <PhaseCountdown
+            deadline={currentRound?.ranking_deadline}
+            label="Your order locks in"
+            className="mt-3"
+          />
         </div>
 
         <ThemedCard glow>
-          <DraggableItemList
-            items={items}
-            onReorder={handleReorder}
-          />
+          {editing ? (
+            <RoundItemEditor items={items} onSave={handleCustomize} onCancel={() => setEditing(false)} />
+          ) : (
+            <>
+              {editable && (
+                <ThemedButton variant="outline" className="w-full mb-4" onClick={() => setEditing(true)}>
+                  <Edit className="w-4 h-4 mr-2" />
+                  Customize Items
+                </ThemedButton>
+              )}
+              <DraggableItemList
+                items={items}
+                onReorder={handleReorder}
+                rankedCount={rankCount}
+              />
 
-          <ThemedButton
-            gradient
-            glow
-            size="lg"
-            className="w-full mt-6"
-            onClick={handleSubmit}
-            disabled={submitting}
-          >
-            {submitting ? 'Submitting...' : 'Confirm Ranking'}
-          </ThemedButton>
+              <ThemedButton
+                gradient
+                glow
+                size="lg"
+                className="w-full mt-6"
+                onClick={handleSubmit}
+                disabled={submitting}
+              >
+                {submitting ? 'Submitting...' : 'Confirm Ranking'}
+              </ThemedButton>
+            </>
+          )}
         </ThemedCard>
       </div>
     </div>
@@ -1,26 +1,44 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useGame } from '@/contexts/GameContext';
 import { ThemedButton } from '@/components/ThemedButton';
 import { ThemedCard } from '@/components/ThemedCard';
-import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
 import { ArrowLeft } from 'lucide-react';
 
 export const CreateGameScreen = () => {
   const navigate = useNavigate();
   const { entityId } = useParams();
   const { createGame } = useGame();
-  const [selectedTopic, setSelectedTopic] = useState('');
+  const [topicCount, setTopicCount] = useState<number | null>(null);
+  const [creating, setCreating] = useState(false);
 
-  const topics = [
-    { id: '1', title: 'Movies 2023' },
-    { id: '2', title: 'Tech Giants' },
-    { id: '3', title: 'Classic Books' },
-  ];
+  useEffect(() => {
+    fetchTopicCount();
+  }, [entityId]);
 
-  const handleCreate = () => {
-    createGame();
+  // The VIP picks a topic each round from this space's library plus the built-in one
+  const fetchTopicCount = async () => {
+    if (!entityId) return;
+
+    const { count, error } = await supabase
+      .from('topics')
+      .select('id', { count: 'exact', head: true })
+      .or(`entity_id.is.null,entity_id.eq.${entityId}`);
+
+    if (error) {
+      console.error('Error counting topics:', error);
+      return;
+    }
+    setTopicCount(count ?? 0);
+  };
+
+  const handleCreate = async () => {
+    if (!entityId) return;
+
+    setCreating(true);
+    await createGame(entityId);
+    setCreating(false);
   };
 
   return (
@@ -35,21 +53,11 @@ export const CreateGameScreen = () => {
 
         <ThemedCard glow>
           <div className="space-y-6">
-            <div>
-              <Label htmlFor="topic">Select Topic</Label>
-              <Select value={selectedTopic} onValueChange={setSelectedTopic}>
-                <SelectTrigger id="topic">
-                  <SelectValue placeholder="Choose a topic" />
-                </SelectTrigger>
-                <SelectContent>
-                  {topics.map((topic) => (
-                    <SelectItem key={topic.id} value={topic.id}>
-                      {topic.title}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+            <p className="text-muted-foreground">
+              {topicCount === null
+                ? 'Loading topics...'
+                : `${topicCount} topics available in this space`}
+            </p>
 
             <div className="p-4 bg-muted rounded-lg">
               <h3 className="font-semibold mb-2">Game Settings</h3>
@@ -67,9 +75,9 @@ export const CreateGameScreen = () => {
               size="lg"
               className="w-full"
               onClick={handleCreate}
-              disabled={!selectedTopic}
+              disabled={creating || !topicCount}
             >
-              Create Game
+              {creating ? 'Creating...' : 'Create Game'}
             </ThemedButton>
           </div>
         </ThemedCard>
@@ -1,11 +1,41 @@
+import { useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { ThemedButton } from '@/components/ThemedButton';
 import { ThemedCard } from '@/components/ThemedCard';
+import { useSkin } from '@/contexts/SkinContext';
+import { useEntity } from '@/hooks/useEntities';
 import { ArrowLeft, Play } from 'lucide-react';
 
 export const EntitySpaceLanding = () => {
   const navigate = useNavigate();
   const { entityId } = useParams();
+  const { entity, role, loading, join } = useEntity(entityId);
+  const { loadEntitySkin } = useSkin();
+
+  useEffect(() => {
+    if (entity) loadEntitySkin(entity.id);
+  }, [entity?.id]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background p-6 flex items-center justify-center">
+        <p className="text-muted-foreground">Loading game space...</p>
+      </div>
+    );
+  }
+
+  if (!entity) {
+    return (
+      <div className="min-h-screen bg-background p-6 flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-muted-foreground mb-4">This game space doesn't exist or is private</p>
+          <ThemedButton variant="outline" onClick={() => navigate('/user/home')}>
+            Back to Knowsy Home
+          </ThemedButton>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="min-h-screen bg-background p-6">
@@ -15,7 +45,7 @@ export const EntitySpaceLanding = () => {
             <ArrowLeft className="w-4 h-4" />
           </ThemedButton>
           <div>
-            <h1 className="text-4xl font-bold gradient-text mb-2">Tech University</h1>
+            <h1 className="text-4xl font-bold gradient-text mb-2">{entity.name}</h1>
             <p className="text-muted-foreground">Welcome to the game space</p>
           </div>
         </div>
@@ -27,17 +57,25 @@ export const EntitySpaceLanding = () => {
             </div>
             <h2 className="text-3xl font-bold gradient-text mb-4">Ready to Play?</h2>
             <p className="text-muted-foreground mb-8 max-w-md mx-auto">
-              Join a game or create your own. Compete with friends and test your knowledge!
+              {role
+                ? 'Join a game or create your own. Compete with friends and test your knowledge!'
+                : `Join ${entity.name} to play its games and topics.`}
             </p>
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
-              <ThemedButton
-                gradient
-                glow
-                size="lg"
-                onClick={() => navigate(`/game-lobby/${entityId}`)}
-              >
-                Enter Game Lobby
-              </ThemedButton>
+              {role ? (
+                <ThemedButton
+                  gradient
+                  glow
+                  size="lg"
+                  onClick={() => navigate(`/game-lobby/${entity.id}`)}
+                >
+                  Enter Game Lobby
+                </ThemedButton>
+              ) : (
+                <ThemedButton gradient glow size="lg" onClick={join}>
+                  Join Space
+                </ThemedButton>
+              )}
               <ThemedButton variant="outline" size="lg" onClick={() => navigate('/user/home')}>
                 Back to Knowsy Home
               </ThemedButton>
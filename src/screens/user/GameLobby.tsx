@@ -1,16 +1,65 @@
+import { useEffect, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { ThemedButton } from '@/components/ThemedButton';
 import { ThemedCard } from '@/components/ThemedCard';
+import { useGame } from '@/contexts/GameContext';
+import { useSkin } from '@/contexts/SkinContext';
+import { supabase } from '@/integrations/supabase/client';
 import { ArrowLeft, Plus, Users } from 'lucide-react';
 
+interface ActiveGame {
+  code: string;
+  status: string;
+  host: string;
+}
+
 export const GameLobby = () => {
   const navigate = useNavigate();
   const { entityId } = useParams();
+  const { joinGame } = useGame();
+  const { loadEntitySkin } = useSkin();
+  const [activeGames, setActiveGames] = useState<ActiveGame[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchActiveGames();
+    // Keeps the space's branding when the lobby is opened directly
+    if (entityId) loadEntitySkin(entityId);
+  }, [entityId]);
+
+  const fetchActiveGames = async () => {
+    if (!entityId) return;
+
+    try {
+      const { data: games, error } = await supabase
+        .from('games')
+        .select('code, status, creator_id')
+        .eq('entity_id', entityId)
+        .neq('status', 'finished')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const { data: hosts } = await supabase
+        .from('profiles')
+        .select('id, username')
+        .in('id', (games || []).map((g) => g.creator_id));
+
+      const hostNames = new Map((hosts || []).map((h) => [h.id, h.username]));
 
-  const activeGames = [
-    { code: 'ABC123', players: 4, host: 'John' },
-    { code: 'XYZ789', players: 2, host: 'Sarah' },
-  ];
+      setActiveGames(
+        (games || []).map((g) => ({
+          code: g.code,
+          status: g.status,
+          host: hostNames.get(g.creator_id) || 'Unknown',
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching active games:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
 
   return (
     <div className="min-h-screen bg-background p-6">
@@ -56,16 +105,20 @@ export const GameLobby = () => {
         <div>
           <h2 className="text-2xl font-bold text-foreground mb-4">Active Games</h2>
           <div className="space-y-4">
+            {loading && <p className="text-muted-foreground">Loading games...</p>}
+            {!loading && activeGames.length === 0 && (
+              <p className="text-muted-foreground">No games running right now. Start one!</p>
+            )}
             {activeGames.map((game) => (
               <ThemedCard key={game.code} className="hover:scale-[1.02] transition-transform">
                 <div className="flex items-center justify-between p-4">
                   <div>
                     <h3 className="text-xl font-bold text-foreground">Code: {game.code}</h3>
                     <p className="text-muted-foreground">
-                      Host: {game.host} • {game.players} players
+                      Host: {game.host} • {game.status === 'waiting' ? 'Waiting to start' : 'In progress'}
                     </p>
                   </div>
-                  <ThemedButton gradient onClick={() => navigate(`/game/${game.code}`)}>
+                  <ThemedButton gradient onClick={() => joinGame(game.code)}>
                     Join
                   </ThemedButton>
                 </div>
@@ -1,18 +1,25 @@
+import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useGame } from '@/contexts/GameContext';
+import { useSkin } from '@/contexts/SkinContext';
+import { useEntities } from '@/hooks/useEntities';
 import { ThemedButton } from '@/components/ThemedButton';
 import { ThemedCard } from '@/components/ThemedCard';
-import { Building2 } from 'lucide-react';
+import { Building2, Play } from 'lucide-react';
 
 export const UserHome = () => {
   const navigate = useNavigate();
   const { logout } = useAuth();
+  const { resumableGame } = useGame();
+  const { resetToDefaultSkin } = useSkin();
 
-  const entities = [
-    { id: '1', name: 'Tech University', gamesPlayed: 24 },
-    { id: '2', name: 'Movie Fan Club', gamesPlayed: 18 },
-    { id: '3', name: 'Book Lovers', gamesPlayed: 32 },
-  ];
+  const { entities, loading } = useEntities();
+
+  // Leaving a space drops its branding
+  useEffect(() => {
+    resetToDefaultSkin();
+  }, []);
 
   return (
     <div className="min-h-screen bg-background p-6">
@@ -27,26 +34,58 @@ export const UserHome = () => {
           </ThemedButton>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {entities.map((entity) => (
-            <ThemedCard
-              key={entity.id}
-              className="cursor-pointer hover:scale-105 transition-transform"
-              glow
-            >
-              <button
-                onClick={() => navigate(`/entity-space/${entity.id}`)}
-                className="w-full text-left p-6"
+        {resumableGame && (
+          <ThemedCard glow className="mb-8">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <h2 className="text-2xl font-bold text-foreground mb-1">Game in progress</h2>
+                <p className="text-muted-foreground">
+                  You're still in game <span className="font-semibold text-primary">{resumableGame.code}</span>
+                </p>
+              </div>
+              <ThemedButton
+                gradient
+                glow
+                onClick={() => navigate(`/game/${resumableGame.code}`)}
               >
-                <div className="w-16 h-16 rounded-xl bg-gradient-to-br from-primary to-secondary flex items-center justify-center mb-4">
-                  <Building2 className="w-8 h-8 text-white" />
-                </div>
-                <h3 className="text-2xl font-bold text-foreground mb-2">{entity.name}</h3>
-                <p className="text-muted-foreground">{entity.gamesPlayed} games played</p>
-              </button>
-            </ThemedCard>
-          ))}
-        </div>
+                <Play className="w-4 h-4 mr-2" />
+                Resume Game
+              </ThemedButton>
+            </div>
+          </ThemedCard>
+        )}
+
+        {loading ? (
+          <p className="text-muted-foreground">Loading game spaces...</p>
+        ) : entities.length === 0 ? (
+          <ThemedCard>
+            <p className="text-muted-foreground">No game spaces are open yet</p>
+          </ThemedCard>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {entities.map((entity) => (
+              <ThemedCard
+                key={entity.id}
+                className="cursor-pointer hover:scale-105 transition-transform"
+                glow
+              >
+                <button
+                  onClick={() => navigate(`/entity-space/${entity.id}`)}
+                  className="w-full text-left p-6"
+                >
+                  <div className="w-16 h-16 rounded-xl bg-gradient-to-br from-primary to-secondary flex items-center justify-center mb-4">
+                    <Building2 className="w-8 h-8 text-white" />
+                  </div>
+                  <h3 className="text-2xl font-bold text-foreground mb-2">{entity.name}</h3>
+                  <p className="text-muted-foreground">
+                    {entity.role === 'admin' ? 'Admin' : entity.role === 'member' ? 'Member' : 'Open to join'}
+                    {entity.visibility === 'private' && ' • Private'}
+                  </p>
+                </button>
+              </ThemedCard>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { kendallStrategy, kendallTau, spearmanRho, spearmanStrategy } from './correlation.ts';
+import type { RankedItem, ScoringSettings } from './types.ts';
+
+const settings: ScoringSettings = {
+  scoring_strategy: 'kendall',
+  points_per_correct: 10,
+  bonus_all_correct: 5,
+  penalty_all_wrong: -3,
+  scoring_top_n: 3,
+  vip_predictability_bonus: 0,
+};
+
+const ranked = (...itemIds: string[]): RankedItem[] => itemIds.map((itemId, index) => ({ itemId, position: index + 1 }));
+
+describe('kendallTau', () => {
+  it('is 1 for the same order and -1 for the reverse', () => {
+    expect(kendallTau(ranked('a', 'b', 'c'), ranked('a', 'b', 'c'))).toBe(1);
+    expect(kendallTau(ranked('a', 'b', 'c'), ranked('c', 'b', 'a'))).toBe(-1);
+  });
+
+  it('counts discordant pairs', () => {
+    expect(kendallTau(ranked('a', 'b', 'c'), ranked('b', 'a', 'c'))).toBeCloseTo(1 / 3);
+  });
+
+  it('keeps tied guesses in the order they are listed', () => {
+    const guess = [
+      { itemId: 'a', position: 1 },
+      { itemId: 'b', position: 1 },
+      { itemId: 'c', position: 2 },
+    ];
+    expect(kendallTau(ranked('a', 'b', 'c'), guess)).toBe(1);
+  });
+
+  it('handles one and zero shared items', () => {
+    expect(kendallTau(ranked('a'), ranked('a'))).toBe(1);
+    expect(kendallTau([], ranked('a'))).toBe(0);
+  });
+});
+
+describe('spearmanRho', () => {
+  it('is 1 for the same order and -1 for the reverse', () => {
+    expect(spearmanRho(ranked('a', 'b', 'c'), ranked('a', 'b', 'c'))).toBe(1);
+    expect(spearmanRho(ranked('a', 'b', 'c'), ranked('c', 'b', 'a'))).toBe(-1);
+  });
+
+  it('forgives a small swap', () => {
+    expect(spearmanRho(ranked('a', 'b', 'c'), ranked('b', 'a', 'c'))).toBe(0.5);
+  });
+});
+
+describe('correlation strategies', () => {
+  it('give full points and the bonus for a perfect guess', () => {
+    for (const strategy of [kendallStrategy, spearmanStrategy]) {
+      const score = strategy.scorePlayer(ranked('a', 'b', 'c'), ranked('a', 'b', 'c'), settings);
+      expect(score.basePoints).toBe(30);
+      expect(score.bonus).toBe(5);
+    }
+  });
+
+  it('give nothing for negative agreement', () => {
+    const score = kendallStrategy.scorePlayer(ranked('a', 'b', 'c'), ranked('c', 'b', 'a'), settings);
+    expect(score.basePoints).toBe(0);
+    expect(score.penalty).toBe(-3);
+  });
+
+  it('scale by how many of the VIP\'s items were guessed', () => {
+    const score = kendallStrategy.scorePlayer(ranked('a', 'b', 'c', 'd'), ranked('a', 'b'), settings);
+    expect(score.basePoints).toBe(20);
+    expect(score.accuracy).toBe(0.5);
+  });
+
+  it('neither reward nor penalise an empty ranking', () => {
+    for (const strategy of [kendallStrategy, spearmanStrategy]) {
+      expect(strategy.scorePlayer([], ranked('a', 'b'), settings)).toEqual({
+        basePoints: 0,
+        bonus: 0,
+        penalty: 0,
+        accuracy: 0,
+      });
+    }
+  });
+});
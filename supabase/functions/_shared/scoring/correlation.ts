@@ -0,0 +1,74 @@
+import type { RankedItem, ScoringSettings, ScoringStrategy } from './types.ts';
+import { positionMap, withBonusAndPenalty } from './utils.ts';
+
+// Pairs of (VIP rank, guessed rank) for the items the player placed, both
+// renumbered 1..n so gaps in positions do not skew the coefficients
+const pairedRanks = (ranking: RankedItem[], guess: RankedItem[]) => {
+  const guessed = positionMap(guess);
+  const shared = ranking.filter((r) => guessed.has(r.itemId));
+
+  const vipOrder = [...shared].sort((a, b) => a.position - b.position);
+  const guessOrder = [...shared].sort((a, b) => guessed.get(a.itemId)! - guessed.get(b.itemId)!);
+  const guessRank = new Map(guessOrder.map((item, index) => [item.itemId, index + 1]));
+
+  return vipOrder.map((item, index) => [index + 1, guessRank.get(item.itemId)!] as const);
+};
+
+export const kendallTau = (ranking: RankedItem[], guess: RankedItem[]) => {
+  const pairs = pairedRanks(ranking, guess);
+  const n = pairs.length;
+  if (n < 2) return n === 1 ? 1 : 0;
+
+  let concordant = 0;
+  let discordant = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const sign = (pairs[i][0] - pairs[j][0]) * (pairs[i][1] - pairs[j][1]);
+      if (sign > 0) concordant++;
+      else if (sign < 0) discordant++;
+    }
+  }
+
+  return (concordant - discordant) / ((n * (n - 1)) / 2);
+};
+
+export const spearmanRho = (ranking: RankedItem[], guess: RankedItem[]) => {
+  const pairs = pairedRanks(ranking, guess);
+  const n = pairs.length;
+  if (n < 2) return n === 1 ? 1 : 0;
+
+  const squaredDistance = pairs.reduce((total, [vip, player]) => total + (vip - player) ** 2, 0);
+  return 1 - (6 * squaredDistance) / (n * (n * n - 1));
+};
+
+// Only positive agreement earns points; a coefficient of 1 is a perfect guess.
+// When only the top positions are ranked, the coefficient covers just the
+// VIP's items the player also picked, so it is scaled by how many they found.
+const correlationScore = (
+  coefficient: number,
+  ranking: RankedItem[],
+  guess: RankedItem[],
+  settings: ScoringSettings
+) => {
+  const maxPoints = ranking.length * settings.points_per_correct;
+  const guessed = positionMap(guess);
+  const found = ranking.filter((r) => guessed.has(r.itemId)).length;
+  const coverage = ranking.length > 0 ? found / ranking.length : 0;
+  return withBonusAndPenalty(Math.round(Math.max(0, coefficient) * coverage * maxPoints), maxPoints, settings);
+};
+
+export const kendallStrategy: ScoringStrategy = {
+  id: 'kendall',
+  label: 'Kendall tau',
+  description: 'Scores how many pairs of items are in the same relative order as the VIP\'s.',
+  scorePlayer: (ranking, guess, settings) =>
+    correlationScore(kendallTau(ranking, guess), ranking, guess, settings),
+};
+
+export const spearmanStrategy: ScoringStrategy = {
+  id: 'spearman',
+  label: 'Spearman',
+  description: 'Scores overall closeness of the order, forgiving small swaps more than big misses.',
+  scorePlayer: (ranking, guess, settings) =>
+    correlationScore(spearmanRho(ranking, guess), ranking, guess, settings),
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { distanceStrategy } from './distance.ts';
+import type { RankedItem, ScoringSettings } from './types.ts';
+
+const settings: ScoringSettings = {
+  scoring_strategy: 'distance',
+  points_per_correct: 10,
+  bonus_all_correct: 5,
+  penalty_all_wrong: -3,
+  scoring_top_n: 3,
+  vip_predictability_bonus: 0,
+};
+
+const ranked = (...itemIds: string[]): RankedItem[] => itemIds.map((itemId, index) => ({ itemId, position: index + 1 }));
+
+describe('distanceStrategy', () => {
+  it('gives full points and the bonus for a perfect guess', () => {
+    const score = distanceStrategy.scorePlayer(ranked('a', 'b', 'c'), ranked('a', 'b', 'c'), settings);
+    expect(score.basePoints).toBe(30);
+    expect(score.bonus).toBe(5);
+    expect(score.accuracy).toBe(1);
+  });
+
+  it('gives partial credit for near misses', () => {
+    // a and b are one place off (7 each), c is exact (10)
+    const score = distanceStrategy.scorePlayer(ranked('a', 'b', 'c'), ranked('b', 'a', 'c'), settings);
+    expect(score.basePoints).toBe(24);
+    expect(score.bonus).toBe(0);
+  });
+
+  it('gives nothing for items three or more places off', () => {
+    const score = distanceStrategy.scorePlayer(ranked('a', 'b', 'c', 'd'), ranked('d', 'b', 'c', 'a'), settings);
+    expect(score.basePoints).toBe(20);
+  });
+
+  it('applies the penalty when every item is too far off', () => {
+    const score = distanceStrategy.scorePlayer(ranked('a', 'b', 'c', 'd'), ranked('d', 'z', 'y', 'a'), settings);
+    expect(score.basePoints).toBe(0);
+    expect(score.penalty).toBe(-3);
+  });
+
+  it('measures tied guesses from each item\'s own VIP position', () => {
+    const guess = [
+      { itemId: 'a', position: 1 },
+      { itemId: 'b', position: 1 },
+      { itemId: 'c', position: 3 },
+    ];
+    expect(distanceStrategy.scorePlayer(ranked('a', 'b', 'c'), guess, settings).basePoints).toBe(27);
+  });
+
+  it('neither rewards nor penalises an empty ranking', () => {
+    expect(distanceStrategy.scorePlayer([], ranked('a'), settings)).toEqual({
+      basePoints: 0,
+      bonus: 0,
+      penalty: 0,
+      accuracy: 0,
+    });
+  });
+});
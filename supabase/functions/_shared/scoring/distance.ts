@@ -0,0 +1,29 @@
+import type { ScoringStrategy } from './types.ts';
+import { positionMap, withBonusAndPenalty } from './utils.ts';
+
+// Guesses this many places off (or more) earn nothing
+export const DISTANCE_FALLOFF = 3;
+
+export const distanceStrategy: ScoringStrategy = {
+  id: 'distance',
+  label: 'Partial credit',
+  description: 'Points shrink the further an item is from the VIP\'s position.',
+  scorePlayer: (ranking, guess, settings) => {
+    const guessed = positionMap(guess);
+
+    const basePoints = ranking.reduce((total, r) => {
+      const position = guessed.get(r.itemId);
+      if (position === undefined) return total;
+
+      const distance = Math.abs(position - r.position);
+      const share = Math.max(0, DISTANCE_FALLOFF - distance) / DISTANCE_FALLOFF;
+      return total + Math.round(settings.points_per_correct * share);
+    }, 0);
+
+    return withBonusAndPenalty(
+      basePoints,
+      ranking.length * settings.points_per_correct,
+      settings
+    );
+  },
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { exactStrategy } from './exact.ts';
+import type { RankedItem, ScoringSettings } from './types.ts';
+
+const settings: ScoringSettings = {
+  scoring_strategy: 'exact',
+  points_per_correct: 10,
+  bonus_all_correct: 5,
+  penalty_all_wrong: -3,
+  scoring_top_n: 3,
+  vip_predictability_bonus: 0,
+};
+
+const ranked = (...itemIds: string[]): RankedItem[] => itemIds.map((itemId, index) => ({ itemId, position: index + 1 }));
+
+describe('exactStrategy', () => {
+  it('gives full points and the bonus for a perfect guess', () => {
+    expect(exactStrategy.scorePlayer(ranked('a', 'b', 'c'), ranked('a', 'b', 'c'), settings)).toEqual({
+      basePoints: 30,
+      bonus: 5,
+      penalty: 0,
+      accuracy: 1,
+    });
+  });
+
+  it('only counts items in the exact position', () => {
+    const score = exactStrategy.scorePlayer(ranked('a', 'b', 'c'), ranked('a', 'c', 'b'), settings);
+    expect(score.basePoints).toBe(10);
+    expect(score.bonus).toBe(0);
+    expect(score.accuracy).toBeCloseTo(1 / 3);
+  });
+
+  it('applies the penalty when nothing is right', () => {
+    const score = exactStrategy.scorePlayer(ranked('a', 'b', 'c'), ranked('b', 'c', 'a'), settings);
+    expect(score.basePoints).toBe(0);
+    expect(score.penalty).toBe(-3);
+  });
+
+  it('scores tied guesses against the VIP position of each item', () => {
+    const guess = [
+      { itemId: 'a', position: 1 },
+      { itemId: 'b', position: 1 },
+      { itemId: 'c', position: 3 },
+    ];
+    expect(exactStrategy.scorePlayer(ranked('a', 'b', 'c'), guess, settings).basePoints).toBe(20);
+  });
+
+  it('ignores guessed items the VIP did not rank', () => {
+    expect(exactStrategy.scorePlayer(ranked('a', 'b'), ranked('a', 'z'), settings).basePoints).toBe(10);
+  });
+
+  it('neither rewards nor penalises an empty ranking', () => {
+    expect(exactStrategy.scorePlayer([], ranked('a', 'b'), settings)).toEqual({
+      basePoints: 0,
+      bonus: 0,
+      penalty: 0,
+      accuracy: 0,
+    });
+  });
+});
@@ -0,0 +1,18 @@
+import type { ScoringStrategy } from './types.ts';
+import { positionMap, withBonusAndPenalty } from './utils.ts';
+
+export const exactStrategy: ScoringStrategy = {
+  id: 'exact',
+  label: 'Exact position',
+  description: 'Full points for every item placed exactly where the VIP put it.',
+  scorePlayer: (ranking, guess, settings) => {
+    const guessed = positionMap(guess);
+    const correct = ranking.filter((r) => guessed.get(r.itemId) === r.position).length;
+
+    return withBonusAndPenalty(
+      correct * settings.points_per_correct,
+      ranking.length * settings.points_per_correct,
+      settings
+    );
+  },
+};
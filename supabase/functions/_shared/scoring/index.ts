@@ -0,0 +1,71 @@
+import type {
+  RankedItem,
+  RoundScoreEntry,
+  ScoringSettings,
+  ScoringStrategy,
+  ScoringStrategyId,
+} from './types.ts';
+import { exactStrategy } from './exact.ts';
+import { distanceStrategy } from './distance.ts';
+import { kendallStrategy, spearmanStrategy } from './correlation.ts';
+import { topNStrategy } from './topN.ts';
+
+export type {
+  PlayerScore,
+  RankedItem,
+  RoundScoreEntry,
+  ScoringSettings,
+  ScoringStrategy,
+  ScoringStrategyId,
+} from './types.ts';
+export { kendallTau, spearmanRho } from './correlation.ts';
+
+export const scoringStrategies: Record<ScoringStrategyId, ScoringStrategy> = {
+  exact: exactStrategy,
+  distance: distanceStrategy,
+  kendall: kendallStrategy,
+  spearman: spearmanStrategy,
+  top_n: topNStrategy,
+};
+
+export const getScoringStrategy = (id: string | null | undefined) =>
+  scoringStrategies[id as ScoringStrategyId] ?? exactStrategy;
+
+// The VIP earns a share of the predictability bonus equal to the players'
+// average accuracy, so a VIP everyone can read is rewarded
+export const vipPredictabilityReward = (accuracies: number[], settings: ScoringSettings) => {
+  if (accuracies.length === 0 || settings.vip_predictability_bonus <= 0) return 0;
+
+  const average = accuracies.reduce((total, a) => total + a, 0) / accuracies.length;
+  return Math.round(settings.vip_predictability_bonus * average);
+};
+
+export const scoreRound = (
+  ranking: RankedItem[],
+  guessesByUser: Record<string, RankedItem[]>,
+  settings: ScoringSettings,
+  vipId: string
+): RoundScoreEntry[] => {
+  const strategy = getScoringStrategy(settings.scoring_strategy);
+  const accuracies: number[] = [];
+
+  const entries: RoundScoreEntry[] = Object.entries(guessesByUser)
+    .filter(([userId]) => userId !== vipId)
+    .map(([userId, guess]) => {
+      const score = strategy.scorePlayer(ranking, guess, settings);
+      accuracies.push(score.accuracy);
+      return {
+        user_id: userId,
+        base_points: score.basePoints,
+        bonus: score.bonus,
+        penalty: score.penalty,
+      };
+    });
+
+  const vipReward = vipPredictabilityReward(accuracies, settings);
+  if (vipReward > 0) {
+    entries.push({ user_id: vipId, base_points: 0, bonus: vipReward, penalty: 0 });
+  }
+
+  return entries;
+};
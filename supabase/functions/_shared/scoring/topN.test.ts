@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { topNStrategy } from './topN.ts';
+import type { RankedItem, ScoringSettings } from './types.ts';
+
+const settings: ScoringSettings = {
+  scoring_strategy: 'top_n',
+  points_per_correct: 10,
+  bonus_all_correct: 5,
+  penalty_all_wrong: -3,
+  scoring_top_n: 2,
+  vip_predictability_bonus: 0,
+};
+
+const ranked = (...itemIds: string[]): RankedItem[] => itemIds.map((itemId, index) => ({ itemId, position: index + 1 }));
+
+describe('topNStrategy', () => {
+  it('only scores the VIP\'s top picks', () => {
+    const score = topNStrategy.scorePlayer(ranked('a', 'b', 'c', 'd'), ranked('a', 'b', 'd', 'c'), settings);
+    expect(score.basePoints).toBe(20);
+    expect(score.bonus).toBe(5);
+    expect(score.accuracy).toBe(1);
+  });
+
+  it('picks the top positions even when the ranking is unordered', () => {
+    const ranking = [
+      { itemId: 'c', position: 3 },
+      { itemId: 'a', position: 1 },
+      { itemId: 'b', position: 2 },
+    ];
+    expect(topNStrategy.scorePlayer(ranking, ranked('a', 'c', 'b'), settings).basePoints).toBe(10);
+  });
+
+  it('scores every item when N is larger than the item count', () => {
+    const score = topNStrategy.scorePlayer(ranked('a', 'b', 'c'), ranked('a', 'b', 'c'), {
+      ...settings,
+      scoring_top_n: 10,
+    });
+    expect(score.basePoints).toBe(30);
+    expect(score.bonus).toBe(5);
+  });
+
+  it('scores at least the top pick', () => {
+    const score = topNStrategy.scorePlayer(ranked('a', 'b'), ranked('a', 'c'), { ...settings, scoring_top_n: 0 });
+    expect(score.basePoints).toBe(10);
+    expect(score.bonus).toBe(5);
+  });
+
+  it('scores tied guesses against each top pick\'s position', () => {
+    const guess = [
+      { itemId: 'a', position: 1 },
+      { itemId: 'b', position: 1 },
+    ];
+    expect(topNStrategy.scorePlayer(ranked('a', 'b', 'c'), guess, settings).basePoints).toBe(10);
+  });
+
+  it('neither rewards nor penalises an empty ranking', () => {
+    expect(topNStrategy.scorePlayer([], ranked('a'), settings)).toEqual({
+      basePoints: 0,
+      bonus: 0,
+      penalty: 0,
+      accuracy: 0,
+    });
+  });
+});
@@ -0,0 +1,15 @@
+import type { ScoringStrategy } from './types.ts';
+import { exactStrategy } from './exact.ts';
+
+export const topNStrategy: ScoringStrategy = {
+  id: 'top_n',
+  label: 'Top picks only',
+  description: 'Only the VIP\'s top picks count, scored by exact position.',
+  scorePlayer: (ranking, guess, settings) => {
+    const topPicks = [...ranking]
+      .sort((a, b) => a.position - b.position)
+      .slice(0, Math.max(1, settings.scoring_top_n));
+
+    return exactStrategy.scorePlayer(topPicks, guess, settings);
+  },
+};
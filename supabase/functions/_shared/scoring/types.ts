@@ -0,0 +1,43 @@
+// Pure scoring types shared by the client preview and the score-round edge
+// function. They live under supabase/functions/_shared so the function deploy
+// ships them; the app reaches them through src/lib/scoring.ts. Nothing here may
+// import from the app or from npm packages, and relative imports keep their
+// .ts extension so Deno can load the same files.
+
+export type ScoringStrategyId = 'exact' | 'distance' | 'kendall' | 'spearman' | 'top_n';
+
+export interface ScoringSettings {
+  scoring_strategy: ScoringStrategyId;
+  points_per_correct: number;
+  bonus_all_correct: number;
+  penalty_all_wrong: number;
+  scoring_top_n: number;
+  vip_predictability_bonus: number;
+}
+
+export interface RankedItem {
+  itemId: string;
+  position: number;
+}
+
+export interface PlayerScore {
+  basePoints: number;
+  bonus: number;
+  penalty: number;
+  // Share of the available base points earned, from 0 to 1
+  accuracy: number;
+}
+
+export interface ScoringStrategy {
+  id: ScoringStrategyId;
+  label: string;
+  description: string;
+  scorePlayer: (ranking: RankedItem[], guess: RankedItem[], settings: ScoringSettings) => PlayerScore;
+}
+
+export interface RoundScoreEntry {
+  user_id: string;
+  base_points: number;
+  bonus: number;
+  penalty: number;
+}
@@ -0,0 +1,22 @@
+import type { PlayerScore, RankedItem, ScoringSettings } from './types.ts';
+
+export const positionMap = (items: RankedItem[]) =>
+  new Map(items.map((item) => [item.itemId, item.position]));
+
+// Bonus when every scored item earned full marks, penalty when none earned
+// anything. With nothing to score (an empty ranking) there is neither.
+export const withBonusAndPenalty = (
+  basePoints: number,
+  maxPoints: number,
+  settings: ScoringSettings
+): PlayerScore => {
+  const allCorrect = maxPoints > 0 && basePoints >= maxPoints;
+  const allWrong = maxPoints > 0 && basePoints <= 0;
+
+  return {
+    basePoints,
+    bonus: allCorrect ? settings.bonus_all_correct : 0,
+    penalty: allWrong ? settings.penalty_all_wrong : 0,
+    accuracy: maxPoints > 0 ? Math.max(0, Math.min(1, basePoints / maxPoints)) : 0,
+  };
+};
@@ -0,0 +1,109 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getScoringStrategy, scoreRound, type RankedItem, type ScoringSettings } from '../_shared/scoring/index.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { roundId } = await req.json();
+    if (!roundId) return json({ error: 'roundId is required' }, 400);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+
+    // Identify the caller with their own token
+    const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) return json({ error: 'Not authenticated' }, 401);
+
+    const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: round, error: roundError } = await admin
+      .from('rounds')
+      .select('id, game_id, vip_id, reveal_index')
+      .eq('id', roundId)
+      .single();
+
+    if (roundError || !round) return json({ error: 'Round not found' }, 404);
+
+    const { data: game, error: gameError } = await admin
+      .from('games')
+      .select('scoring_strategy, points_per_correct, bonus_all_correct, penalty_all_wrong, scoring_top_n, vip_predictability_bonus')
+      .eq('id', round.game_id)
+      .single();
+
+    if (gameError || !game) return json({ error: 'Game not found' }, 404);
+
+    // An unknown strategy scores as exact, the same fallback scoreRound uses
+    const settings: ScoringSettings = {
+      scoring_strategy: getScoringStrategy(game.scoring_strategy).id,
+      points_per_correct: game.points_per_correct,
+      bonus_all_correct: game.bonus_all_correct,
+      penalty_all_wrong: game.penalty_all_wrong,
+      scoring_top_n: game.scoring_top_n,
+      vip_predictability_bonus: game.vip_predictability_bonus,
+    };
+
+    const [{ data: rankings, error: rankingsError }, { data: guesses, error: guessesError }] =
+      await Promise.all([
+        admin.from('rankings').select('item_id, position').eq('round_id', roundId),
+        admin.from('guesses').select('user_id, item_id, position').eq('round_id', roundId),
+      ]);
+
+    if (rankingsError) throw rankingsError;
+    if (guessesError) throw guessesError;
+
+    // The VIP may finish the round at any point in the reveal. Once every
+    // item is shown (e.g. after the reveal timer ran out) any player may.
+    if (round.vip_id !== user.id) {
+      const { data: player } = await admin
+        .from('game_players')
+        .select('id')
+        .eq('game_id', round.game_id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (!player || round.reveal_index < (rankings || []).length) {
+        return json({ error: 'Only the VIP can score a round' }, 403);
+      }
+    }
+
+    const ranking: RankedItem[] = (rankings || []).map((r) => ({
+      itemId: r.item_id,
+      position: r.position,
+    }));
+
+    const guessesByUser: Record<string, RankedItem[]> = {};
+    (guesses || []).forEach((g) => {
+      (guessesByUser[g.user_id] ||= []).push({ itemId: g.item_id, position: g.position });
+    });
+
+    const scores = scoreRound(ranking, guessesByUser, settings, round.vip_id);
+
+    const { error: applyError } = await admin.rpc('apply_round_scores', {
+      _round_id: roundId,
+      _scores: scores,
+    });
+
+    if (applyError) throw applyError;
+
+    return json({ scores });
+  } catch (error) {
+    console.error('Error scoring round:', error);
+    return json({ error: error instanceof Error ? error.message : 'Failed to score round' }, 500);
+  }
+});
@@ -0,0 +1,85 @@
+-- Track when a round has been scored so scoring is applied exactly once
+ALTER TABLE public.rounds ADD COLUMN IF NOT EXISTS scored_at TIMESTAMPTZ;
+
+-- Scores may only be changed by score_round(); players keep the ability to
+-- join games and update their own username
+REVOKE INSERT, UPDATE ON public.game_players FROM anon, authenticated;
+GRANT INSERT (game_id, user_id, username) ON public.game_players TO authenticated;
+GRANT UPDATE (username) ON public.game_players TO authenticated;
+
+-- Authoritative round scoring
+CREATE OR REPLACE FUNCTION public.score_round(_round_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _round public.rounds%ROWTYPE;
+  _game public.games%ROWTYPE;
+BEGIN
+  -- Lock the round so concurrent callers serialize on it
+  SELECT * INTO _round FROM public.rounds WHERE id = _round_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF _round.vip_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the VIP can score a round';
+  END IF;
+
+  -- Already scored: nothing to do
+  IF _round.scored_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF _round.status NOT IN ('revealing', 'complete') THEN
+    RAISE EXCEPTION 'Round cannot be scored while %', _round.status;
+  END IF;
+
+  SELECT * INTO _game FROM public.games WHERE id = _round.game_id FOR UPDATE;
+
+  -- Points per player: correct guesses plus all-correct bonus or all-wrong penalty
+  WITH graded AS (
+    SELECT g.user_id, (g.position = r.position) AS is_correct
+    FROM public.guesses g
+    LEFT JOIN public.rankings r
+      ON r.round_id = g.round_id AND r.item_id = g.item_id
+    WHERE g.round_id = _round_id
+  ),
+  totals AS (
+    SELECT
+      user_id,
+      COUNT(*) FILTER (WHERE is_correct) * _game.points_per_correct
+        + CASE
+            WHEN bool_and(COALESCE(is_correct, false)) THEN _game.bonus_all_correct
+            WHEN NOT bool_or(COALESCE(is_correct, false)) THEN _game.penalty_all_wrong
+            ELSE 0
+          END AS points
+    FROM graded
+    GROUP BY user_id
+  )
+  UPDATE public.game_players gp
+  SET score = gp.score + totals.points
+  FROM totals
+  WHERE gp.game_id = _round.game_id
+  AND gp.user_id = totals.user_id;
+
+  UPDATE public.rounds
+  SET status = 'complete', scored_at = now()
+  WHERE id = _round_id;
+
+  -- Finish the game once anyone reaches the target score
+  IF EXISTS (
+    SELECT 1 FROM public.game_players
+    WHERE game_id = _round.game_id
+    AND score >= _game.target_score
+  ) THEN
+    UPDATE public.games SET status = 'finished' WHERE id = _round.game_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.score_round(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.score_round(UUID) TO authenticated;
@@ -0,0 +1,132 @@
+-- Clients never grade their own guesses: is_correct is always cleared on insert
+CREATE OR REPLACE FUNCTION public.clear_guess_correctness()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.is_correct = NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER clear_is_correct BEFORE INSERT ON public.guesses FOR EACH ROW EXECUTE FUNCTION public.clear_guess_correctness();
+
+-- Grade every guess of a round against the VIP's ranking
+CREATE OR REPLACE FUNCTION public.grade_round(_round_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.guesses g
+  SET is_correct = EXISTS (
+    SELECT 1 FROM public.rankings r
+    WHERE r.round_id = g.round_id
+    AND r.item_id = g.item_id
+    AND r.position = g.position
+  )
+  WHERE g.round_id = _round_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.grade_round(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Grade guesses the moment a round enters the reveal
+CREATE OR REPLACE FUNCTION public.handle_round_reveal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.grade_round(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER grade_on_reveal
+  AFTER UPDATE OF status ON public.rounds
+  FOR EACH ROW
+  WHEN (NEW.status = 'revealing' AND OLD.status IS DISTINCT FROM 'revealing')
+  EXECUTE FUNCTION public.handle_round_reveal();
+
+-- Guesses can only be submitted by non-VIP players while the round is open for guessing
+DROP POLICY IF EXISTS "Players can create guesses" ON public.guesses;
+CREATE POLICY "Players can create guesses" ON public.guesses FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.rounds r
+    JOIN public.game_players gp ON gp.game_id = r.game_id
+    WHERE r.id = guesses.round_id
+    AND gp.user_id = auth.uid()
+    AND r.vip_id <> auth.uid()
+    AND r.status = 'player_guessing'
+  )
+);
+
+-- Score from the server-side grading rather than re-deriving correctness
+CREATE OR REPLACE FUNCTION public.score_round(_round_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _round public.rounds%ROWTYPE;
+  _game public.games%ROWTYPE;
+BEGIN
+  -- Lock the round so concurrent callers serialize on it
+  SELECT * INTO _round FROM public.rounds WHERE id = _round_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF _round.vip_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the VIP can score a round';
+  END IF;
+
+  -- Already scored: nothing to do
+  IF _round.scored_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF _round.status NOT IN ('revealing', 'complete') THEN
+    RAISE EXCEPTION 'Round cannot be scored while %', _round.status;
+  END IF;
+
+  SELECT * INTO _game FROM public.games WHERE id = _round.game_id FOR UPDATE;
+
+  -- Points per player: correct guesses plus all-correct bonus or all-wrong penalty
+  WITH totals AS (
+    SELECT
+      user_id,
+      COUNT(*) FILTER (WHERE is_correct) * _game.points_per_correct
+        + CASE
+            WHEN bool_and(COALESCE(is_correct, false)) THEN _game.bonus_all_correct
+            WHEN NOT bool_or(COALESCE(is_correct, false)) THEN _game.penalty_all_wrong
+            ELSE 0
+          END AS points
+    FROM public.guesses
+    WHERE round_id = _round_id
+    GROUP BY user_id
+  )
+  UPDATE public.game_players gp
+  SET score = gp.score + totals.points
+  FROM totals
+  WHERE gp.game_id = _round.game_id
+  AND gp.user_id = totals.user_id;
+
+  UPDATE public.rounds
+  SET status = 'complete', scored_at = now()
+  WHERE id = _round_id;
+
+  -- Finish the game once anyone reaches the target score
+  IF EXISTS (
+    SELECT 1 FROM public.game_players
+    WHERE game_id = _round.game_id
+    AND score >= _game.target_score
+  ) THEN
+    UPDATE public.games SET status = 'finished' WHERE id = _round.game_id;
+  END IF;
+END;
+$$;
@@ -0,0 +1,106 @@
+-- Per-round score ledger, written by score_round()
+CREATE TABLE IF NOT EXISTS public.round_scores (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  round_id UUID NOT NULL REFERENCES public.rounds(id) ON DELETE CASCADE,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  base_points INTEGER NOT NULL DEFAULT 0,
+  bonus INTEGER NOT NULL DEFAULT 0,
+  penalty INTEGER NOT NULL DEFAULT 0,
+  total_after INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(round_id, user_id)
+);
+
+ALTER TABLE public.round_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Players can view round scores" ON public.round_scores FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.game_players
+    WHERE game_players.game_id = round_scores.game_id
+    AND game_players.user_id = auth.uid()
+  )
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.round_scores;
+
+-- Record the breakdown for every player, then apply it to game_players
+CREATE OR REPLACE FUNCTION public.score_round(_round_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _round public.rounds%ROWTYPE;
+  _game public.games%ROWTYPE;
+BEGIN
+  -- Lock the round so concurrent callers serialize on it
+  SELECT * INTO _round FROM public.rounds WHERE id = _round_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF _round.vip_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the VIP can score a round';
+  END IF;
+
+  -- Already scored: nothing to do
+  IF _round.scored_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF _round.status NOT IN ('revealing', 'complete') THEN
+    RAISE EXCEPTION 'Round cannot be scored while %', _round.status;
+  END IF;
+
+  SELECT * INTO _game FROM public.games WHERE id = _round.game_id FOR UPDATE;
+
+  -- Points per player: correct guesses plus all-correct bonus or all-wrong penalty.
+  -- Players without guesses (including the VIP) get a zero row so every
+  -- player has a ledger entry for the round.
+  WITH totals AS (
+    SELECT
+      user_id,
+      COUNT(*) FILTER (WHERE is_correct) * _game.points_per_correct AS base_points,
+      CASE WHEN bool_and(COALESCE(is_correct, false)) THEN _game.bonus_all_correct ELSE 0 END AS bonus,
+      CASE WHEN NOT bool_or(COALESCE(is_correct, false)) THEN _game.penalty_all_wrong ELSE 0 END AS penalty
+    FROM public.guesses
+    WHERE round_id = _round_id
+    GROUP BY user_id
+  )
+  INSERT INTO public.round_scores (round_id, game_id, user_id, base_points, bonus, penalty, total_after)
+  SELECT
+    _round_id,
+    gp.game_id,
+    gp.user_id,
+    COALESCE(t.base_points, 0),
+    COALESCE(t.bonus, 0),
+    COALESCE(t.penalty, 0),
+    gp.score + COALESCE(t.base_points + t.bonus + t.penalty, 0)
+  FROM public.game_players gp
+  LEFT JOIN totals t ON t.user_id = gp.user_id
+  WHERE gp.game_id = _round.game_id;
+
+  UPDATE public.game_players gp
+  SET score = rs.total_after
+  FROM public.round_scores rs
+  WHERE rs.round_id = _round_id
+  AND gp.game_id = rs.game_id
+  AND gp.user_id = rs.user_id;
+
+  UPDATE public.rounds
+  SET status = 'complete', scored_at = now()
+  WHERE id = _round_id;
+
+  -- Finish the game once anyone reaches the target score
+  IF EXISTS (
+    SELECT 1 FROM public.game_players
+    WHERE game_id = _round.game_id
+    AND score >= _game.target_score
+  ) THEN
+    UPDATE public.games SET status = 'finished' WHERE id = _round.game_id;
+  END IF;
+END;
+$$;
@@ -0,0 +1,85 @@
+-- Selectable scoring strategies, computed by the score-round edge function
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS scoring_strategy TEXT NOT NULL DEFAULT 'exact'
+    CHECK (scoring_strategy IN ('exact', 'distance', 'kendall', 'spearman', 'top_n')),
+  ADD COLUMN IF NOT EXISTS scoring_top_n INTEGER NOT NULL DEFAULT 3 CHECK (scoring_top_n > 0),
+  ADD COLUMN IF NOT EXISTS vip_predictability_bonus INTEGER NOT NULL DEFAULT 0;
+
+-- Points are now computed in TypeScript; the database only applies them
+DROP FUNCTION IF EXISTS public.score_round(UUID);
+
+-- Apply a round's points exactly once: write the ledger, update totals,
+-- complete the round and finish the game when the target is reached.
+-- _scores is a JSON array of { user_id, base_points, bonus, penalty }.
+CREATE OR REPLACE FUNCTION public.apply_round_scores(_round_id UUID, _scores JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _round public.rounds%ROWTYPE;
+  _game public.games%ROWTYPE;
+BEGIN
+  -- Lock the round so concurrent callers serialize on it
+  SELECT * INTO _round FROM public.rounds WHERE id = _round_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  -- Already scored: nothing to do
+  IF _round.scored_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF _round.status NOT IN ('revealing', 'complete') THEN
+    RAISE EXCEPTION 'Round cannot be scored while %', _round.status;
+  END IF;
+
+  SELECT * INTO _game FROM public.games WHERE id = _round.game_id FOR UPDATE;
+
+  -- Players without an entry get a zero row so everyone has a ledger entry
+  WITH entries AS (
+    SELECT *
+    FROM jsonb_to_recordset(_scores)
+      AS e(user_id UUID, base_points INTEGER, bonus INTEGER, penalty INTEGER)
+  )
+  INSERT INTO public.round_scores (round_id, game_id, user_id, base_points, bonus, penalty, total_after)
+  SELECT
+    _round_id,
+    gp.game_id,
+    gp.user_id,
+    COALESCE(e.base_points, 0),
+    COALESCE(e.bonus, 0),
+    COALESCE(e.penalty, 0),
+    gp.score + COALESCE(e.base_points, 0) + COALESCE(e.bonus, 0) + COALESCE(e.penalty, 0)
+  FROM public.game_players gp
+  LEFT JOIN entries e ON e.user_id = gp.user_id
+  WHERE gp.game_id = _round.game_id;
+
+  UPDATE public.game_players gp
+  SET score = rs.total_after
+  FROM public.round_scores rs
+  WHERE rs.round_id = _round_id
+  AND gp.game_id = rs.game_id
+  AND gp.user_id = rs.user_id;
+
+  UPDATE public.rounds
+  SET status = 'complete', scored_at = now()
+  WHERE id = _round_id;
+
+  -- Finish the game once anyone reaches the target score
+  IF EXISTS (
+    SELECT 1 FROM public.game_players
+    WHERE game_id = _round.game_id
+    AND score >= _game.target_score
+  ) THEN
+    UPDATE public.games SET status = 'finished' WHERE id = _round.game_id;
+  END IF;
+END;
+$$;
+
+-- Only the edge function (service role) may apply scores
+REVOKE EXECUTE ON FUNCTION public.apply_round_scores(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_round_scores(UUID, JSONB) TO service_role;
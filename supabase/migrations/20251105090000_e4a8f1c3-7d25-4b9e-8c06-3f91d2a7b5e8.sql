@@ -0,0 +1,44 @@
+-- Round status state machine, mirroring src/lib/roundStateMachine.ts:
+--   topic_selection -> vip_ranking -> player_guessing -> revealing -> complete
+CREATE OR REPLACE FUNCTION public.is_valid_round_transition(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _from = _to OR (_from, _to) IN (
+    ('topic_selection', 'vip_ranking'),
+    ('vip_ranking', 'player_guessing'),
+    ('player_guessing', 'revealing'),
+    ('revealing', 'complete')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_round_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('topic_selection', 'vip_ranking') THEN
+      RAISE EXCEPTION 'A new round cannot start in status %', NEW.status;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.is_valid_round_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Illegal round transition from % to %', OLD.status, NEW.status;
+  END IF;
+
+  -- The reveal only moves forward, and only while revealing
+  IF NEW.reveal_index <> OLD.reveal_index THEN
+    IF NEW.status <> 'revealing' OR NEW.reveal_index < OLD.reveal_index THEN
+      RAISE EXCEPTION 'Illegal reveal index change from % to %', OLD.reveal_index, NEW.reveal_index;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_round_transition
+  BEFORE INSERT OR UPDATE ON public.rounds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_round_transition();
@@ -0,0 +1,145 @@
+-- How many players must finish guessing, and how long guessing may run
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS guess_quorum_percent INTEGER NOT NULL DEFAULT 100
+    CHECK (guess_quorum_percent BETWEEN 1 AND 100),
+  ADD COLUMN IF NOT EXISTS guess_timeout_seconds INTEGER CHECK (guess_timeout_seconds > 0);
+
+ALTER TABLE public.rounds ADD COLUMN IF NOT EXISTS guess_deadline TIMESTAMPTZ;
+
+-- Players who have submitted a full set of guesses. Guesses themselves stay
+-- private until the reveal, so this is what everyone watches for progress.
+CREATE TABLE IF NOT EXISTS public.round_submissions (
+  round_id UUID NOT NULL REFERENCES public.rounds(id) ON DELETE CASCADE,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (round_id, user_id)
+);
+
+ALTER TABLE public.round_submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Players can view round submissions" ON public.round_submissions FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.game_players
+    WHERE game_players.game_id = round_submissions.game_id
+    AND game_players.user_id = auth.uid()
+  )
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.round_submissions;
+
+-- Start the guessing clock when a round opens for guesses
+CREATE OR REPLACE FUNCTION public.set_round_deadlines()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _timeout INTEGER;
+BEGIN
+  IF NEW.status = 'player_guessing' AND OLD.status IS DISTINCT FROM 'player_guessing' THEN
+    SELECT guess_timeout_seconds INTO _timeout FROM public.games WHERE id = NEW.game_id;
+    IF _timeout IS NOT NULL THEN
+      NEW.guess_deadline = now() + make_interval(secs => _timeout);
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_round_deadlines
+  BEFORE UPDATE OF status ON public.rounds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_round_deadlines();
+
+-- Move a round to the reveal once the quorum has guessed or the deadline
+-- has passed. Safe to call repeatedly; returns whether the round advanced.
+CREATE OR REPLACE FUNCTION public.try_start_reveal(_round_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _round public.rounds%ROWTYPE;
+  _quorum INTEGER;
+  _eligible INTEGER;
+  _submitted INTEGER;
+BEGIN
+  SELECT * INTO _round FROM public.rounds WHERE id = _round_id FOR UPDATE;
+
+  IF NOT FOUND OR _round.status <> 'player_guessing' THEN
+    RETURN false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.game_players
+    WHERE game_id = _round.game_id
+    AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only players in this game can advance the round';
+  END IF;
+
+  SELECT guess_quorum_percent INTO _quorum FROM public.games WHERE id = _round.game_id;
+
+  SELECT COUNT(*) INTO _eligible
+  FROM public.game_players
+  WHERE game_id = _round.game_id
+  AND user_id <> _round.vip_id;
+
+  SELECT COUNT(*) INTO _submitted
+  FROM public.round_submissions
+  WHERE round_id = _round_id;
+
+  IF _submitted * 100 >= _eligible * _quorum
+    OR (_round.guess_deadline IS NOT NULL AND now() >= _round.guess_deadline) THEN
+    UPDATE public.rounds
+    SET status = 'revealing', reveal_index = 1
+    WHERE id = _round_id;
+    RETURN true;
+  END IF;
+
+  RETURN false;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.try_start_reveal(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.try_start_reveal(UUID) TO authenticated;
+
+-- Record complete submissions and advance the round when the quorum is met
+CREATE OR REPLACE FUNCTION public.handle_guesses_submitted()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _round_id UUID;
+BEGIN
+  INSERT INTO public.round_submissions (round_id, game_id, user_id)
+  SELECT g.round_id, r.game_id, g.user_id
+  FROM (SELECT DISTINCT round_id, user_id FROM new_guesses) g
+  JOIN public.rounds r ON r.id = g.round_id
+  WHERE (
+    SELECT COUNT(*) FROM public.guesses
+    WHERE guesses.round_id = g.round_id AND guesses.user_id = g.user_id
+  ) >= (
+    SELECT COUNT(*) FROM public.rankings
+    WHERE rankings.round_id = g.round_id
+  )
+  ON CONFLICT DO NOTHING;
+
+  FOR _round_id IN SELECT DISTINCT round_id FROM new_guesses LOOP
+    PERFORM public.try_start_reveal(_round_id);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER guesses_submitted
+  AFTER INSERT ON public.guesses
+  REFERENCING NEW TABLE AS new_guesses
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.handle_guesses_submitted();
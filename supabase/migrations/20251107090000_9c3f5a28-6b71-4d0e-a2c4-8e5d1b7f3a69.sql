@@ -0,0 +1,178 @@
+-- Per-phase time limits, configured per game and stamped onto rounds as
+-- absolute deadlines when each phase starts
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS ranking_timeout_seconds INTEGER CHECK (ranking_timeout_seconds > 0),
+  ADD COLUMN IF NOT EXISTS reveal_step_seconds INTEGER CHECK (reveal_step_seconds > 0);
+
+ALTER TABLE public.rounds
+  ADD COLUMN IF NOT EXISTS ranking_deadline TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS reveal_step_deadline TIMESTAMPTZ;
+
+-- The VIP's in-progress order, auto-submitted if the ranking deadline passes
+CREATE TABLE IF NOT EXISTS public.ranking_drafts (
+  round_id UUID PRIMARY KEY REFERENCES public.rounds(id) ON DELETE CASCADE,
+  vip_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_ids UUID[] NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ranking_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "VIP can manage own draft" ON public.ranking_drafts FOR ALL USING (
+  auth.uid() = vip_id
+  AND EXISTS (
+    SELECT 1 FROM public.rounds
+    WHERE rounds.id = ranking_drafts.round_id
+    AND rounds.vip_id = auth.uid()
+  )
+) WITH CHECK (
+  auth.uid() = vip_id
+  AND EXISTS (
+    SELECT 1 FROM public.rounds
+    WHERE rounds.id = ranking_drafts.round_id
+    AND rounds.vip_id = auth.uid()
+    AND rounds.status = 'vip_ranking'
+  )
+);
+
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.ranking_drafts FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Next VIP in join order after the current one, wrapping around
+CREATE OR REPLACE FUNCTION public.next_vip_id(_game_id UUID, _current_vip_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_id
+  FROM public.game_players
+  WHERE game_id = _game_id
+  ORDER BY
+    joined_at <= COALESCE(
+      (SELECT joined_at FROM public.game_players WHERE game_id = _game_id AND user_id = _current_vip_id),
+      '-infinity'::timestamptz
+    ),
+    joined_at
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.next_vip_id(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Stamp a deadline whenever a timed phase starts (or the reveal steps on)
+CREATE OR REPLACE FUNCTION public.set_round_deadlines()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _game public.games%ROWTYPE;
+  _entering BOOLEAN;
+BEGIN
+  SELECT * INTO _game FROM public.games WHERE id = NEW.game_id;
+  _entering := TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status;
+
+  -- A new VIP taking over the ranking gets a fresh clock
+  IF NEW.status = 'vip_ranking'
+    AND (_entering OR NEW.vip_id IS DISTINCT FROM OLD.vip_id)
+    AND _game.ranking_timeout_seconds IS NOT NULL THEN
+    NEW.ranking_deadline = now() + make_interval(secs => _game.ranking_timeout_seconds);
+  END IF;
+
+  IF NEW.status = 'player_guessing' AND _entering
+    AND _game.guess_timeout_seconds IS NOT NULL THEN
+    NEW.guess_deadline = now() + make_interval(secs => _game.guess_timeout_seconds);
+  END IF;
+
+  IF NEW.status = 'revealing'
+    AND (_entering OR NEW.reveal_index IS DISTINCT FROM OLD.reveal_index)
+    AND _game.reveal_step_seconds IS NOT NULL THEN
+    NEW.reveal_step_deadline = now() + make_interval(secs => _game.reveal_step_seconds);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_round_deadlines ON public.rounds;
+CREATE TRIGGER set_round_deadlines
+  BEFORE INSERT OR UPDATE ON public.rounds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_round_deadlines();
+
+-- Handle an expired phase deadline. Any player may call this; it does
+-- nothing unless the current phase's deadline has actually passed.
+-- Returns what happened: ranking_submitted, vip_passed, reveal_started,
+-- reveal_advanced, reveal_finished or none.
+CREATE OR REPLACE FUNCTION public.expire_round_phase(_round_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _round public.rounds%ROWTYPE;
+  _draft UUID[];
+  _next_vip UUID;
+  _total INTEGER;
+BEGIN
+  SELECT * INTO _round FROM public.rounds WHERE id = _round_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.game_players
+    WHERE game_id = _round.game_id
+    AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only players in this game can expire a phase';
+  END IF;
+
+  IF _round.status = 'vip_ranking' AND _round.ranking_deadline <= now() THEN
+    SELECT item_ids INTO _draft FROM public.ranking_drafts WHERE round_id = _round_id;
+
+    -- The VIP was here: lock in whatever order they had
+    IF COALESCE(array_length(_draft, 1), 0) > 0 THEN
+      INSERT INTO public.rankings (round_id, item_id, position)
+      SELECT _round_id, d.item_id, d.ord
+      FROM unnest(_draft) WITH ORDINALITY AS d(item_id, ord)
+      ON CONFLICT DO NOTHING;
+
+      UPDATE public.rounds SET status = 'player_guessing' WHERE id = _round_id;
+      RETURN 'ranking_submitted';
+    END IF;
+
+    -- The VIP never showed up: hand the round to the next player
+    _next_vip := public.next_vip_id(_round.game_id, _round.vip_id);
+    UPDATE public.rounds SET vip_id = _next_vip WHERE id = _round_id;
+    UPDATE public.games SET current_vip_id = _next_vip WHERE id = _round.game_id;
+    RETURN 'vip_passed';
+  END IF;
+
+  -- Players who have not guessed by now are skipped
+  IF _round.status = 'player_guessing' AND _round.guess_deadline <= now() THEN
+    PERFORM public.try_start_reveal(_round_id);
+    RETURN 'reveal_started';
+  END IF;
+
+  IF _round.status = 'revealing' AND _round.reveal_step_deadline <= now() THEN
+    SELECT COUNT(*) INTO _total FROM public.rankings WHERE round_id = _round_id;
+
+    IF _round.reveal_index < _total THEN
+      UPDATE public.rounds SET reveal_index = reveal_index + 1 WHERE id = _round_id;
+      RETURN 'reveal_advanced';
+    END IF;
+
+    -- Everything is shown; the caller scores the round through score-round
+    RETURN 'reveal_finished';
+  END IF;
+
+  RETURN 'none';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_round_phase(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.expire_round_phase(UUID) TO authenticated;
@@ -0,0 +1,206 @@
+-- Server-side view of who is still connected. Realtime presence drives the
+-- UI; clients also heartbeat here so quorum and VIP checks can trust it.
+CREATE TABLE IF NOT EXISTS public.player_presence (
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (game_id, user_id)
+);
+
+ALTER TABLE public.player_presence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Players can view presence" ON public.player_presence FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.game_players
+    WHERE game_players.game_id = player_presence.game_id
+    AND game_players.user_id = auth.uid()
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.mark_player_seen(_game_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.game_players
+    WHERE game_id = _game_id
+    AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only players in this game can report presence';
+  END IF;
+
+  INSERT INTO public.player_presence (game_id, user_id)
+  VALUES (_game_id, auth.uid())
+  ON CONFLICT (game_id, user_id) DO UPDATE SET last_seen_at = now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_player_seen(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_player_seen(UUID) TO authenticated;
+
+-- A player counts as connected until a minute passes without a heartbeat.
+-- Players who never reported (older clients) are given the benefit of the doubt.
+CREATE OR REPLACE FUNCTION public.is_player_connected(_game_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT last_seen_at > now() - interval '60 seconds'
+     FROM public.player_presence
+     WHERE game_id = _game_id AND user_id = _user_id),
+    true
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_player_connected(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Next VIP after the current one: connected players first, then join order
+CREATE OR REPLACE FUNCTION public.next_vip_id(_game_id UUID, _current_vip_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_id
+  FROM public.game_players
+  WHERE game_id = _game_id
+  ORDER BY
+    user_id = _current_vip_id,
+    public.is_player_connected(_game_id, user_id) DESC,
+    joined_at <= COALESCE(
+      (SELECT joined_at FROM public.game_players WHERE game_id = _game_id AND user_id = _current_vip_id),
+      '-infinity'::timestamptz
+    ),
+    joined_at
+  LIMIT 1;
+$$;
+
+-- Disconnected players who have not guessed no longer hold up the quorum
+CREATE OR REPLACE FUNCTION public.try_start_reveal(_round_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _round public.rounds%ROWTYPE;
+  _quorum INTEGER;
+  _eligible INTEGER;
+  _submitted INTEGER;
+BEGIN
+  SELECT * INTO _round FROM public.rounds WHERE id = _round_id FOR UPDATE;
+
+  IF NOT FOUND OR _round.status <> 'player_guessing' THEN
+    RETURN false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.game_players
+    WHERE game_id = _round.game_id
+    AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only players in this game can advance the round';
+  END IF;
+
+  SELECT guess_quorum_percent INTO _quorum FROM public.games WHERE id = _round.game_id;
+
+  SELECT COUNT(*) INTO _eligible
+  FROM public.game_players gp
+  WHERE gp.game_id = _round.game_id
+  AND gp.user_id <> _round.vip_id
+  AND (
+    public.is_player_connected(gp.game_id, gp.user_id)
+    OR EXISTS (
+      SELECT 1 FROM public.round_submissions rs
+      WHERE rs.round_id = _round_id AND rs.user_id = gp.user_id
+    )
+  );
+
+  SELECT COUNT(*) INTO _submitted
+  FROM public.round_submissions
+  WHERE round_id = _round_id;
+
+  IF (_submitted > 0 AND _submitted * 100 >= _eligible * _quorum)
+    OR (_round.guess_deadline IS NOT NULL AND now() >= _round.guess_deadline) THEN
+    UPDATE public.rounds
+    SET status = 'revealing', reveal_index = 1
+    WHERE id = _round_id;
+    RETURN true;
+  END IF;
+
+  RETURN false;
+END;
+$$;
+
+-- Hand the VIP role to the next player. The VIP and the host may always do
+-- this; anyone else only once the VIP has dropped off. Passing _from_vip_id
+-- makes concurrent calls from several clients collapse into one rotation.
+-- An unfinished round moves to the new VIP, except while players are still
+-- guessing, when the VIP has nothing to do and the round carries on.
+CREATE OR REPLACE FUNCTION public.rotate_vip(_game_id UUID, _from_vip_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _game public.games%ROWTYPE;
+  _round public.rounds%ROWTYPE;
+  _next_vip UUID;
+BEGIN
+  SELECT * INTO _game FROM public.games WHERE id = _game_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.game_players
+    WHERE game_id = _game_id
+    AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only players in this game can pass the VIP role';
+  END IF;
+
+  -- Someone else already moved it on
+  IF _game.current_vip_id IS DISTINCT FROM _from_vip_id THEN
+    RETURN _game.current_vip_id;
+  END IF;
+
+  IF auth.uid() NOT IN (_game.creator_id, _from_vip_id)
+    AND public.is_player_connected(_game_id, _from_vip_id) THEN
+    RAISE EXCEPTION 'Only the VIP or the host can pass the VIP role';
+  END IF;
+
+  _next_vip := public.next_vip_id(_game_id, _from_vip_id);
+
+  SELECT * INTO _round
+  FROM public.rounds
+  WHERE game_id = _game_id
+  ORDER BY round_number DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND AND _round.status <> 'complete' THEN
+    IF _round.status = 'player_guessing' THEN
+      RAISE EXCEPTION 'The VIP cannot change while players are guessing';
+    END IF;
+
+    DELETE FROM public.ranking_drafts WHERE round_id = _round.id;
+    UPDATE public.rounds SET vip_id = _next_vip WHERE id = _round.id;
+  END IF;
+
+  UPDATE public.games SET current_vip_id = _next_vip WHERE id = _game_id;
+  RETURN _next_vip;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rotate_vip(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rotate_vip(UUID, UUID) TO authenticated;
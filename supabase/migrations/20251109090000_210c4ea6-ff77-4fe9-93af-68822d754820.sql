@@ -0,0 +1,176 @@
+-- Organizations that host their own game spaces, topics and skins
+CREATE TABLE IF NOT EXISTS public.entities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  slug TEXT UNIQUE NOT NULL CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  skin JSONB NOT NULL DEFAULT '{}'::jsonb,
+  visibility TEXT NOT NULL DEFAULT 'public' CHECK (visibility IN ('public', 'private')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.entity_members (
+  entity_id UUID NOT NULL REFERENCES public.entities(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('member', 'admin')),
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (entity_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS entity_members_user_id_idx ON public.entity_members(user_id);
+
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.entities FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Games and topics belong to an entity. Topics without one are the shared
+-- built-in library; games without one predate entities.
+ALTER TABLE public.games ADD COLUMN IF NOT EXISTS entity_id UUID REFERENCES public.entities(id) ON DELETE CASCADE;
+ALTER TABLE public.topics ADD COLUMN IF NOT EXISTS entity_id UUID REFERENCES public.entities(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS games_entity_id_idx ON public.games(entity_id);
+CREATE INDEX IF NOT EXISTS topics_entity_id_idx ON public.topics(entity_id);
+
+-- Topic names only need to be unique within their library
+ALTER TABLE public.topics DROP CONSTRAINT IF EXISTS topics_name_key;
+ALTER TABLE public.topics ADD CONSTRAINT topics_entity_id_name_key UNIQUE NULLS NOT DISTINCT (entity_id, name);
+
+-- Membership checks used by the policies below. SECURITY DEFINER so the
+-- entity_members policies can call them without recursing into themselves.
+CREATE OR REPLACE FUNCTION public.is_entity_member(_entity_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.entity_members
+    WHERE entity_id = _entity_id
+    AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_entity_admin(_entity_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.entity_members
+    WHERE entity_id = _entity_id
+    AND user_id = auth.uid()
+    AND role = 'admin'
+  );
+$$;
+
+-- The owner is always an admin of their entity
+CREATE OR REPLACE FUNCTION public.handle_new_entity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.entity_members (entity_id, user_id, role)
+  VALUES (NEW.id, NEW.owner_id, 'admin')
+  ON CONFLICT (entity_id, user_id) DO UPDATE SET role = 'admin';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_entity_created
+  AFTER INSERT ON public.entities
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_entity();
+
+ALTER TABLE public.entities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.entity_members ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for entities
+CREATE POLICY "Anyone can view public entities" ON public.entities FOR SELECT USING (
+  visibility = 'public' OR public.is_entity_member(id)
+);
+CREATE POLICY "Users can create entities" ON public.entities FOR INSERT WITH CHECK (auth.uid() = owner_id);
+CREATE POLICY "Admins can update entities" ON public.entities FOR UPDATE USING (public.is_entity_admin(id));
+CREATE POLICY "Owners can delete entities" ON public.entities FOR DELETE USING (auth.uid() = owner_id);
+
+-- RLS Policies for entity_members
+CREATE POLICY "Members can view fellow members" ON public.entity_members FOR SELECT USING (
+  auth.uid() = user_id OR public.is_entity_member(entity_id)
+);
+CREATE POLICY "Users can join public entities" ON public.entity_members FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND role = 'member'
+  AND EXISTS (
+    SELECT 1 FROM public.entities
+    WHERE entities.id = entity_members.entity_id
+    AND entities.visibility = 'public'
+  )
+);
+CREATE POLICY "Admins can add members" ON public.entity_members FOR INSERT WITH CHECK (public.is_entity_admin(entity_id));
+CREATE POLICY "Admins can change roles" ON public.entity_members FOR UPDATE USING (public.is_entity_admin(entity_id));
+CREATE POLICY "Members can leave, admins can remove" ON public.entity_members FOR DELETE USING (
+  auth.uid() = user_id OR public.is_entity_admin(entity_id)
+);
+
+-- Games: entity members can see (and so join) their entity's games, and only
+-- members may open games in an entity
+CREATE POLICY "Entity members can view entity games" ON public.games FOR SELECT USING (
+  entity_id IS NOT NULL AND public.is_entity_member(entity_id)
+);
+
+DROP POLICY IF EXISTS "Users can create games" ON public.games;
+CREATE POLICY "Users can create games" ON public.games FOR INSERT WITH CHECK (
+  auth.uid() = creator_id
+  AND (entity_id IS NULL OR public.is_entity_member(entity_id))
+);
+
+-- Topics: the built-in library is shared, entity topics stay with their
+-- members (and with anyone playing a round on them)
+DROP POLICY IF EXISTS "Anyone can view topics" ON public.topics;
+CREATE POLICY "Members can view topics" ON public.topics FOR SELECT USING (
+  entity_id IS NULL
+  OR public.is_entity_member(entity_id)
+  OR EXISTS (
+    SELECT 1 FROM public.rounds r
+    JOIN public.game_players gp ON gp.game_id = r.game_id
+    WHERE r.topic_id = topics.id
+    AND gp.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Authenticated users can create topics" ON public.topics;
+DROP POLICY IF EXISTS "Users can update own topics" ON public.topics;
+DROP POLICY IF EXISTS "Users can delete own topics" ON public.topics;
+
+CREATE POLICY "Users can create topics" ON public.topics FOR INSERT WITH CHECK (
+  auth.uid() = created_by
+  AND (entity_id IS NULL OR public.is_entity_admin(entity_id))
+);
+CREATE POLICY "Owners and admins can update topics" ON public.topics FOR UPDATE USING (
+  auth.uid() = created_by
+  OR (entity_id IS NOT NULL AND public.is_entity_admin(entity_id))
+);
+CREATE POLICY "Owners and admins can delete topics" ON public.topics FOR DELETE USING (
+  auth.uid() = created_by
+  OR (entity_id IS NOT NULL AND public.is_entity_admin(entity_id))
+);
+
+DROP POLICY IF EXISTS "Anyone can view topic items" ON public.topic_items;
+CREATE POLICY "Users can view items of visible topics" ON public.topic_items FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.topics
+    WHERE topics.id = topic_items.topic_id
+  )
+);
+
+CREATE POLICY "Entity admins can manage items" ON public.topic_items FOR ALL USING (
+  EXISTS (
+    SELECT 1 FROM public.topics
+    WHERE topics.id = topic_items.topic_id
+    AND topics.entity_id IS NOT NULL
+    AND public.is_entity_admin(topics.entity_id)
+  )
+);
@@ -0,0 +1,55 @@
+-- Whether an account signed up as a player or as an entity (an organisation
+-- running its own space). Chosen once at signup and fixed afterwards.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS account_type TEXT NOT NULL DEFAULT 'player'
+    CHECK (account_type IN ('player', 'entity'));
+
+-- Accounts that already own an entity signed up as one
+UPDATE public.profiles
+SET account_type = 'entity'
+WHERE id IN (SELECT owner_id FROM public.entities);
+
+-- Users keep the ability to edit their own profile, but not their role
+REVOKE INSERT, UPDATE ON public.profiles FROM anon, authenticated;
+GRANT INSERT (id, username, avatar_url) ON public.profiles TO authenticated;
+GRANT UPDATE (username, avatar_url) ON public.profiles TO authenticated;
+
+-- Pick up the account type chosen at signup
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, username, account_type, created_at, updated_at)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'username', split_part(NEW.email, '@', 1)),
+    CASE WHEN NEW.raw_user_meta_data->>'account_type' = 'entity' THEN 'entity' ELSE 'player' END,
+    NOW(),
+    NOW()
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_entity_account()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid()
+    AND account_type = 'entity'
+  );
+$$;
+
+-- Only entity accounts may open a new entity
+DROP POLICY IF EXISTS "Users can create entities" ON public.entities;
+CREATE POLICY "Entity accounts can create entities" ON public.entities FOR INSERT WITH CHECK (
+  auth.uid() = owner_id AND public.is_entity_account()
+);
@@ -0,0 +1,72 @@
+-- Topics that have been played are archived instead of deleted, since
+-- deleting a topic cascades to every round played on it
+ALTER TABLE public.topics ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+-- An archived topic frees up its name for a replacement
+ALTER TABLE public.topics DROP CONSTRAINT IF EXISTS topics_entity_id_name_key;
+CREATE UNIQUE INDEX IF NOT EXISTS topics_entity_id_name_key
+  ON public.topics (entity_id, name) NULLS NOT DISTINCT
+  WHERE archived_at IS NULL;
+
+-- Reordering rewrites every position in one statement, so uniqueness is
+-- checked once the statement finishes rather than row by row
+ALTER TABLE public.topic_items DROP CONSTRAINT IF EXISTS topic_items_topic_id_position_key;
+ALTER TABLE public.topic_items
+  ADD CONSTRAINT topic_items_topic_id_position_key UNIQUE (topic_id, position)
+  DEFERRABLE INITIALLY IMMEDIATE;
+
+-- Removing an item would cascade into past rankings and guesses
+CREATE OR REPLACE FUNCTION public.prevent_played_item_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.rankings WHERE item_id = OLD.id)
+    OR EXISTS (SELECT 1 FROM public.guesses WHERE item_id = OLD.id) THEN
+    RAISE EXCEPTION 'Item "%" has already been played and cannot be removed', OLD.name;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER prevent_played_item_delete
+  BEFORE DELETE ON public.topic_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_played_item_delete();
+
+-- Delete a topic, or archive it if any round has used it. Returns
+-- 'deleted' or 'archived'.
+CREATE OR REPLACE FUNCTION public.delete_topic(_topic_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _topic public.topics%ROWTYPE;
+BEGIN
+  SELECT * INTO _topic FROM public.topics WHERE id = _topic_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Topic not found';
+  END IF;
+
+  IF _topic.created_by IS DISTINCT FROM auth.uid()
+    AND NOT (_topic.entity_id IS NOT NULL AND public.is_entity_admin(_topic.entity_id)) THEN
+    RAISE EXCEPTION 'Only the topic owner or a space admin can delete this topic';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.rounds WHERE topic_id = _topic_id) THEN
+    UPDATE public.topics SET archived_at = now() WHERE id = _topic_id AND archived_at IS NULL;
+    RETURN 'archived';
+  END IF;
+
+  DELETE FROM public.topics WHERE id = _topic_id;
+  RETURN 'deleted';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.delete_topic(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.delete_topic(UUID) TO authenticated;
@@ -0,0 +1,54 @@
+-- One broad category per topic plus free-form tags, used to browse and
+-- search topics when choosing one for a round
+ALTER TABLE public.topics
+  ADD COLUMN IF NOT EXISTS category TEXT,
+  ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS topics_category_idx ON public.topics(category);
+
+-- Categorise the built-in library
+UPDATE public.topics SET category = 'Family' WHERE entity_id IS NULL AND name IN (
+  'After Dinner Scenes', 'After Guests Leave', 'Dad''s Go-To Drink', 'Funniest Family Member',
+  'Loudest Moment of your Family', 'Most Spoiled Member'
+);
+
+UPDATE public.topics SET category = 'Food' WHERE entity_id IS NULL AND name IN (
+  'Breakfast cereal', 'Comfort Food', 'Energy Drink', 'Favorite type of sandwich?', 'Road Trip Snack'
+);
+
+UPDATE public.topics SET category = 'Sports' WHERE entity_id IS NULL AND name IN (
+  'F1 Teams', 'IPL Teams', 'Sport you love', 'Outdoor adventure'
+);
+
+UPDATE public.topics SET category = 'Pop Culture' WHERE entity_id IS NULL AND name IN (
+  'Best cartoon friend', 'Best Shoe Brands', 'Comfort Shows', 'Disney Sidekick', 'Favorite Disney movie',
+  'Girl Group Vibe', 'Hot Take', 'Iconic Brands', 'Instagram Aesthetic', 'Movie Genres',
+  'The Original Disney Princesses'
+);
+
+UPDATE public.topics SET category = 'Travel' WHERE entity_id IS NULL AND name IN (
+  'Amusement Park Rides', 'Family Trip Spot', 'Family Vacations Highlights',
+  'Fascinating Wonder Of The World', 'Magical Place to Visit', 'Theme Park Energy'
+);
+
+UPDATE public.topics SET category = 'Memories' WHERE entity_id IS NULL AND name IN (
+  'Best Memory', 'Childhood Games', 'Dream Job as a Kid', 'Most Likely Regret'
+);
+
+UPDATE public.topics SET category = 'Lifestyle' WHERE entity_id IS NULL AND category IS NULL;
+
+UPDATE public.topics SET tags = '{disney}' WHERE entity_id IS NULL AND name IN (
+  'Disney Sidekick', 'Favorite Disney movie', 'The Original Disney Princesses'
+);
+
+UPDATE public.topics SET tags = '{seasonal}' WHERE entity_id IS NULL AND name IN (
+  'Autumn highlights', 'Holidays', 'Winter Fun Activities'
+);
+
+UPDATE public.topics SET tags = '{brands}' WHERE entity_id IS NULL AND name IN (
+  'Best Shoe Brands', 'Energy Drink', 'Iconic Brands'
+);
+
+UPDATE public.topics SET tags = '{theme-parks}' WHERE entity_id IS NULL AND name IN (
+  'Amusement Park Rides', 'Theme Park Energy'
+);
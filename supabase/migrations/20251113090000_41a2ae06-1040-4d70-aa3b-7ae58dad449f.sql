@@ -0,0 +1,115 @@
+-- Round-scoped items: on an editable topic the VIP may rename, replace or
+-- add items for their round. The customised set is stored as topic_items
+-- tied to the round, so rankings and guesses reference it like any other
+-- item while the topic's own items stay untouched.
+ALTER TABLE public.topic_items
+  ADD COLUMN IF NOT EXISTS round_id UUID REFERENCES public.rounds(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS topic_items_round_id_idx ON public.topic_items(round_id);
+
+ALTER TABLE public.topic_items DROP CONSTRAINT IF EXISTS topic_items_topic_id_position_key;
+ALTER TABLE public.topic_items
+  ADD CONSTRAINT topic_items_topic_id_position_key UNIQUE NULLS NOT DISTINCT (topic_id, round_id, position)
+  DEFERRABLE INITIALLY IMMEDIATE;
+
+-- Round items are only visible to the players of that round
+DROP POLICY IF EXISTS "Users can view items of visible topics" ON public.topic_items;
+CREATE POLICY "Users can view items of visible topics" ON public.topic_items FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.topics
+    WHERE topics.id = topic_items.topic_id
+  )
+  AND (
+    round_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.rounds r
+      JOIN public.game_players gp ON gp.game_id = r.game_id
+      WHERE r.id = topic_items.round_id
+      AND gp.user_id = auth.uid()
+    )
+  )
+);
+
+-- Topic owners manage the topic's own items, not a round's
+DROP POLICY IF EXISTS "Topic creators can manage items" ON public.topic_items;
+CREATE POLICY "Topic creators can manage items" ON public.topic_items FOR ALL USING (
+  round_id IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.topics
+    WHERE topics.id = topic_items.topic_id
+    AND topics.created_by = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Entity admins can manage items" ON public.topic_items;
+CREATE POLICY "Entity admins can manage items" ON public.topic_items FOR ALL USING (
+  round_id IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.topics
+    WHERE topics.id = topic_items.topic_id
+    AND topics.entity_id IS NOT NULL
+    AND public.is_entity_admin(topics.entity_id)
+  )
+);
+
+-- Replace the round's item set with the given names, in order. Only the
+-- VIP may do this, only on an editable topic and only before ranking.
+-- Mirrors MAX_ROUND_ITEMS in src/lib/topics.ts.
+CREATE OR REPLACE FUNCTION public.set_round_items(_round_id UUID, _names TEXT[])
+RETURNS SETOF public.topic_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _round public.rounds%ROWTYPE;
+  _names_clean TEXT[];
+BEGIN
+  SELECT * INTO _round FROM public.rounds WHERE id = _round_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF _round.vip_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the VIP can customise this round';
+  END IF;
+
+  IF _round.status <> 'vip_ranking' THEN
+    RAISE EXCEPTION 'Items can only be changed before the ranking is submitted';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.topics WHERE id = _round.topic_id AND is_editable) THEN
+    RAISE EXCEPTION 'This topic cannot be customised';
+  END IF;
+
+  SELECT array_agg(btrim(n) ORDER BY ord) INTO _names_clean
+  FROM unnest(_names) WITH ORDINALITY AS t(n, ord);
+
+  IF COALESCE(array_length(_names_clean, 1), 0) NOT BETWEEN 2 AND 15 THEN
+    RAISE EXCEPTION 'A round needs between 2 and 15 items';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(_names_clean) AS n WHERE n = '') THEN
+    RAISE EXCEPTION 'Items cannot be blank';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT lower(n)) FROM unnest(_names_clean) AS n) <> array_length(_names_clean, 1) THEN
+    RAISE EXCEPTION 'Items must be unique';
+  END IF;
+
+  -- The VIP's draft points at the old set
+  DELETE FROM public.ranking_drafts WHERE round_id = _round_id;
+  DELETE FROM public.topic_items WHERE round_id = _round_id;
+
+  INSERT INTO public.topic_items (topic_id, round_id, name, position)
+  SELECT _round.topic_id, _round_id, n, ord
+  FROM unnest(_names_clean) WITH ORDINALITY AS t(n, ord);
+
+  RETURN QUERY
+  SELECT * FROM public.topic_items WHERE round_id = _round_id ORDER BY position;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_round_items(UUID, TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_round_items(UUID, TEXT[]) TO authenticated;
@@ -0,0 +1,178 @@
+-- How many items each round deals (a random subset of the topic) and how
+-- many positions get ranked and guessed. NULL means the whole topic.
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS items_per_round INTEGER CHECK (items_per_round >= 2),
+  ADD COLUMN IF NOT EXISTS ranked_positions INTEGER CHECK (ranked_positions >= 1),
+  ADD CONSTRAINT games_ranked_positions_within_items CHECK (
+    ranked_positions IS NULL OR items_per_round IS NULL OR ranked_positions <= items_per_round
+  );
+
+-- Each round keeps the deal and the ranking depth it started with, so a
+-- settings change only affects later rounds. dealt_item_ids NULL means
+-- every item of the round is in play.
+ALTER TABLE public.rounds
+  ADD COLUMN IF NOT EXISTS dealt_item_ids UUID[],
+  ADD COLUMN IF NOT EXISTS ranked_positions INTEGER;
+
+CREATE OR REPLACE FUNCTION public.deal_round_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _game public.games%ROWTYPE;
+BEGIN
+  SELECT * INTO _game FROM public.games WHERE id = NEW.game_id;
+
+  NEW.ranked_positions := _game.ranked_positions;
+  NEW.dealt_item_ids := NULL;
+
+  IF _game.items_per_round IS NOT NULL THEN
+    NEW.dealt_item_ids := ARRAY(
+      SELECT id FROM public.topic_items
+      WHERE topic_id = NEW.topic_id
+      AND round_id IS NULL
+      ORDER BY random()
+      LIMIT _game.items_per_round
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER deal_round_items
+  BEFORE INSERT ON public.rounds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.deal_round_items();
+
+-- A customised set is played in full, so it replaces the deal
+CREATE OR REPLACE FUNCTION public.set_round_items(_round_id UUID, _names TEXT[])
+RETURNS SETOF public.topic_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _round public.rounds%ROWTYPE;
+  _names_clean TEXT[];
+BEGIN
+  SELECT * INTO _round FROM public.rounds WHERE id = _round_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF _round.vip_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the VIP can customise this round';
+  END IF;
+
+  IF _round.status <> 'vip_ranking' THEN
+    RAISE EXCEPTION 'Items can only be changed before the ranking is submitted';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.topics WHERE id = _round.topic_id AND is_editable) THEN
+    RAISE EXCEPTION 'This topic cannot be customised';
+  END IF;
+
+  SELECT array_agg(btrim(n) ORDER BY ord) INTO _names_clean
+  FROM unnest(_names) WITH ORDINALITY AS t(n, ord);
+
+  IF COALESCE(array_length(_names_clean, 1), 0) NOT BETWEEN 2 AND 15 THEN
+    RAISE EXCEPTION 'A round needs between 2 and 15 items';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(_names_clean) AS n WHERE n = '') THEN
+    RAISE EXCEPTION 'Items cannot be blank';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT lower(n)) FROM unnest(_names_clean) AS n) <> array_length(_names_clean, 1) THEN
+    RAISE EXCEPTION 'Items must be unique';
+  END IF;
+
+  -- The VIP's draft points at the old set
+  DELETE FROM public.ranking_drafts WHERE round_id = _round_id;
+  DELETE FROM public.topic_items WHERE round_id = _round_id;
+
+  INSERT INTO public.topic_items (topic_id, round_id, name, position)
+  SELECT _round.topic_id, _round_id, n, ord
+  FROM unnest(_names_clean) WITH ORDINALITY AS t(n, ord);
+
+  UPDATE public.rounds SET dealt_item_ids = NULL WHERE id = _round_id;
+
+  RETURN QUERY
+  SELECT * FROM public.topic_items WHERE round_id = _round_id ORDER BY position;
+END;
+$$;
+
+-- A timed-out ranking only locks in the positions the round ranks
+CREATE OR REPLACE FUNCTION public.expire_round_phase(_round_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _round public.rounds%ROWTYPE;
+  _draft UUID[];
+  _next_vip UUID;
+  _total INTEGER;
+BEGIN
+  SELECT * INTO _round FROM public.rounds WHERE id = _round_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.game_players
+    WHERE game_id = _round.game_id
+    AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only players in this game can expire a phase';
+  END IF;
+
+  IF _round.status = 'vip_ranking' AND _round.ranking_deadline <= now() THEN
+    SELECT item_ids INTO _draft FROM public.ranking_drafts WHERE round_id = _round_id;
+
+    -- The VIP was here: lock in whatever order they had
+    IF COALESCE(array_length(_draft, 1), 0) > 0 THEN
+      INSERT INTO public.rankings (round_id, item_id, position)
+      SELECT _round_id, d.item_id, d.ord
+      FROM unnest(_draft) WITH ORDINALITY AS d(item_id, ord)
+      WHERE d.ord <= COALESCE(_round.ranked_positions, array_length(_draft, 1))
+      ON CONFLICT DO NOTHING;
+
+      UPDATE public.rounds SET status = 'player_guessing' WHERE id = _round_id;
+      RETURN 'ranking_submitted';
+    END IF;
+
+    -- The VIP never showed up: hand the round to the next player
+    _next_vip := public.next_vip_id(_round.game_id, _round.vip_id);
+    UPDATE public.rounds SET vip_id = _next_vip WHERE id = _round_id;
+    UPDATE public.games SET current_vip_id = _next_vip WHERE id = _round.game_id;
+    RETURN 'vip_passed';
+  END IF;
+
+  -- Players who have not guessed by now are skipped
+  IF _round.status = 'player_guessing' AND _round.guess_deadline <= now() THEN
+    PERFORM public.try_start_reveal(_round_id);
+    RETURN 'reveal_started';
+  END IF;
+
+  IF _round.status = 'revealing' AND _round.reveal_step_deadline <= now() THEN
+    SELECT COUNT(*) INTO _total FROM public.rankings WHERE round_id = _round_id;
+
+    IF _round.reveal_index < _total THEN
+      UPDATE public.rounds SET reveal_index = reveal_index + 1 WHERE id = _round_id;
+      RETURN 'reveal_advanced';
+    END IF;
+
+    -- Everything is shown; the caller scores the round through score-round
+    RETURN 'reveal_finished';
+  END IF;
+
+  RETURN 'none';
+END;
+$$;
@@ -0,0 +1,43 @@
+-- Optional media on topic items: an emoji, a short description and an
+-- image. Images live in the topic-item-images bucket under the entity's id.
+ALTER TABLE public.topic_items
+  ADD COLUMN IF NOT EXISTS emoji TEXT CHECK (char_length(emoji) <= 16),
+  ADD COLUMN IF NOT EXISTS description TEXT CHECK (char_length(description) <= 280),
+  ADD COLUMN IF NOT EXISTS image_url TEXT;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('topic-item-images', 'topic-item-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Entity admins manage the images in their entity's folder
+CREATE OR REPLACE FUNCTION public.can_manage_item_image(_object_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN public.is_entity_admin(((storage.foldername(_object_name))[1])::UUID);
+EXCEPTION
+  WHEN invalid_text_representation THEN
+    RETURN false;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_manage_item_image(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.can_manage_item_image(TEXT) TO authenticated;
+
+CREATE POLICY "Anyone can view topic item images" ON storage.objects FOR SELECT USING (
+  bucket_id = 'topic-item-images'
+);
+
+CREATE POLICY "Entity admins can upload topic item images" ON storage.objects FOR INSERT WITH CHECK (
+  bucket_id = 'topic-item-images'
+  AND public.can_manage_item_image(name)
+);
+
+CREATE POLICY "Entity admins can delete topic item images" ON storage.objects FOR DELETE USING (
+  bucket_id = 'topic-item-images'
+  AND public.can_manage_item_image(name)
+);
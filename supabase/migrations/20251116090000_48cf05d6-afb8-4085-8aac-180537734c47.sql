@@ -0,0 +1,144 @@
+-- Custom topics written by a VIP during a game. They belong to the player
+-- (entity_id NULL, created_by set): kept in their personal library when
+-- saved, or created already archived when only meant for one round.
+
+-- Names are unique within an entity's library, and within each player's
+-- personal library (the built-in library counts as one)
+DROP INDEX IF EXISTS public.topics_entity_id_name_key;
+CREATE UNIQUE INDEX topics_entity_id_name_key
+  ON public.topics (entity_id, name)
+  WHERE archived_at IS NULL AND entity_id IS NOT NULL;
+CREATE UNIQUE INDEX topics_personal_name_key
+  ON public.topics (created_by, name) NULLS NOT DISTINCT
+  WHERE archived_at IS NULL AND entity_id IS NULL;
+
+-- A player offering one of their topics to an entity's library
+CREATE TABLE public.topic_submissions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  topic_id UUID NOT NULL REFERENCES public.topics(id) ON DELETE CASCADE,
+  entity_id UUID NOT NULL REFERENCES public.entities(id) ON DELETE CASCADE,
+  submitted_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (topic_id, entity_id)
+);
+
+CREATE INDEX topic_submissions_entity_id_idx ON public.topic_submissions(entity_id, status);
+
+ALTER TABLE public.topic_submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_topic_reviewer(_topic_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.topic_submissions
+    WHERE topic_id = _topic_id
+    AND public.is_entity_admin(entity_id)
+  );
+$$;
+
+-- Personal topics are private to their creator; the built-in library
+-- (created_by NULL) stays shared
+DROP POLICY IF EXISTS "Members can view topics" ON public.topics;
+CREATE POLICY "Members can view topics" ON public.topics FOR SELECT USING (
+  (entity_id IS NULL AND (created_by IS NULL OR created_by = auth.uid()))
+  OR public.is_entity_member(entity_id)
+  OR EXISTS (
+    SELECT 1 FROM public.rounds r
+    JOIN public.game_players gp ON gp.game_id = r.game_id
+    WHERE r.topic_id = topics.id
+    AND gp.user_id = auth.uid()
+  )
+  OR public.is_topic_reviewer(id)
+);
+
+-- Players may submit their own topics to an entity whose games they play in
+CREATE POLICY "Players can submit own topics" ON public.topic_submissions FOR INSERT WITH CHECK (
+  auth.uid() = submitted_by
+  AND status = 'pending'
+  AND EXISTS (
+    SELECT 1 FROM public.topics
+    WHERE topics.id = topic_submissions.topic_id
+    AND topics.created_by = auth.uid()
+    AND topics.entity_id IS NULL
+  )
+  AND (
+    public.is_entity_member(entity_id)
+    OR EXISTS (
+      SELECT 1 FROM public.games g
+      JOIN public.game_players gp ON gp.game_id = g.id
+      WHERE g.entity_id = topic_submissions.entity_id
+      AND gp.user_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Submitters and admins can view submissions" ON public.topic_submissions FOR SELECT USING (
+  auth.uid() = submitted_by
+  OR public.is_entity_admin(entity_id)
+);
+
+-- Approving copies the topic and its items into the entity's library and
+-- returns the new topic's id; rejecting returns NULL
+CREATE OR REPLACE FUNCTION public.review_topic_submission(_submission_id UUID, _approve BOOLEAN)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _submission public.topic_submissions%ROWTYPE;
+  _topic public.topics%ROWTYPE;
+  _new_topic_id UUID;
+BEGIN
+  SELECT * INTO _submission FROM public.topic_submissions WHERE id = _submission_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_entity_admin(_submission.entity_id) THEN
+    RAISE EXCEPTION 'Submission not found';
+  END IF;
+
+  IF _submission.status <> 'pending' THEN
+    RAISE EXCEPTION 'This submission has already been reviewed';
+  END IF;
+
+  IF _approve THEN
+    SELECT * INTO _topic FROM public.topics WHERE id = _submission.topic_id;
+
+    IF EXISTS (
+      SELECT 1 FROM public.topics
+      WHERE entity_id = _submission.entity_id
+      AND name = _topic.name
+      AND archived_at IS NULL
+    ) THEN
+      RAISE EXCEPTION 'A topic called "%" already exists', _topic.name;
+    END IF;
+
+    INSERT INTO public.topics (name, is_editable, category, tags, entity_id, created_by)
+    VALUES (_topic.name, _topic.is_editable, _topic.category, _topic.tags, _submission.entity_id, auth.uid())
+    RETURNING id INTO _new_topic_id;
+
+    INSERT INTO public.topic_items (topic_id, name, emoji, description, image_url, position)
+    SELECT _new_topic_id, name, emoji, description, image_url, position
+    FROM public.topic_items
+    WHERE topic_id = _topic.id
+    AND round_id IS NULL;
+  END IF;
+
+  UPDATE public.topic_submissions
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _submission_id;
+
+  RETURN _new_topic_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.review_topic_submission(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.review_topic_submission(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,30 @@
+-- Each entity's brand: colors, logo, font and component shapes, applied to
+-- the app while a player is in the entity's space
+CREATE TABLE public.entity_skins (
+  entity_id UUID NOT NULL PRIMARY KEY REFERENCES public.entities(id) ON DELETE CASCADE,
+  primary_color TEXT NOT NULL DEFAULT '#a64dff' CHECK (primary_color ~ '^#[0-9a-fA-F]{6}$'),
+  secondary_color TEXT NOT NULL DEFAULT '#00d4ff' CHECK (secondary_color ~ '^#[0-9a-fA-F]{6}$'),
+  logo_url TEXT,
+  font TEXT CHECK (char_length(font) <= 64),
+  button_style TEXT NOT NULL DEFAULT 'rounded' CHECK (button_style IN ('rounded', 'sharp', 'pill')),
+  card_style TEXT NOT NULL DEFAULT 'rounded' CHECK (card_style IN ('rounded', 'sharp')),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.entity_skins ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can see the entity sees its skin
+CREATE POLICY "Users can view skins of visible entities" ON public.entity_skins FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.entities
+    WHERE entities.id = entity_skins.entity_id
+  )
+);
+
+CREATE POLICY "Entity admins can manage skins" ON public.entity_skins FOR ALL USING (
+  public.is_entity_admin(entity_id)
+) WITH CHECK (
+  public.is_entity_admin(entity_id)
+);
+
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.entity_skins FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
@@ -0,0 +1,155 @@
+-- Skin editor: admins edit a draft, publish it into entity_skins, and keep
+-- every published version to restore from
+ALTER TABLE public.entity_skins
+  ADD COLUMN IF NOT EXISTS background_color TEXT CHECK (background_color ~ '^#[0-9a-fA-F]{6}$');
+
+CREATE TABLE public.entity_skin_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  entity_id UUID NOT NULL REFERENCES public.entities(id) ON DELETE CASCADE,
+  -- Assigned on publish; NULL while the row is the entity's draft
+  version INTEGER,
+  primary_color TEXT NOT NULL CHECK (primary_color ~ '^#[0-9a-fA-F]{6}$'),
+  secondary_color TEXT NOT NULL CHECK (secondary_color ~ '^#[0-9a-fA-F]{6}$'),
+  background_color TEXT CHECK (background_color ~ '^#[0-9a-fA-F]{6}$'),
+  logo_url TEXT,
+  font TEXT CHECK (char_length(font) <= 64),
+  button_style TEXT NOT NULL DEFAULT 'rounded' CHECK (button_style IN ('rounded', 'sharp', 'pill')),
+  card_style TEXT NOT NULL DEFAULT 'rounded' CHECK (card_style IN ('rounded', 'sharp')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  published_at TIMESTAMPTZ,
+  UNIQUE (entity_id, version)
+);
+
+-- At most one draft per entity
+CREATE UNIQUE INDEX entity_skin_versions_draft_key
+  ON public.entity_skin_versions (entity_id)
+  WHERE published_at IS NULL;
+
+ALTER TABLE public.entity_skin_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Entity admins can view skin versions" ON public.entity_skin_versions FOR SELECT USING (
+  public.is_entity_admin(entity_id)
+);
+
+-- Only drafts are written directly; publishing goes through publish_skin_draft
+CREATE POLICY "Entity admins can create skin drafts" ON public.entity_skin_versions FOR INSERT WITH CHECK (
+  public.is_entity_admin(entity_id)
+  AND published_at IS NULL
+  AND version IS NULL
+);
+
+CREATE POLICY "Entity admins can edit skin drafts" ON public.entity_skin_versions FOR UPDATE USING (
+  public.is_entity_admin(entity_id)
+  AND published_at IS NULL
+) WITH CHECK (
+  published_at IS NULL
+  AND version IS NULL
+);
+
+CREATE POLICY "Entity admins can discard skin drafts" ON public.entity_skin_versions FOR DELETE USING (
+  public.is_entity_admin(entity_id)
+  AND published_at IS NULL
+);
+
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.entity_skin_versions FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Turns the entity's draft into the next version and makes it the live skin.
+-- Returns the version number.
+CREATE OR REPLACE FUNCTION public.publish_skin_draft(_entity_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _draft public.entity_skin_versions%ROWTYPE;
+  _version INTEGER;
+BEGIN
+  IF NOT public.is_entity_admin(_entity_id) THEN
+    RAISE EXCEPTION 'Only admins can publish the skin';
+  END IF;
+
+  SELECT * INTO _draft
+  FROM public.entity_skin_versions
+  WHERE entity_id = _entity_id
+  AND published_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'There is no draft to publish';
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO _version
+  FROM public.entity_skin_versions
+  WHERE entity_id = _entity_id;
+
+  UPDATE public.entity_skin_versions
+  SET version = _version, published_at = now()
+  WHERE id = _draft.id;
+
+  INSERT INTO public.entity_skins (
+    entity_id, primary_color, secondary_color, background_color, logo_url, font, button_style, card_style
+  )
+  VALUES (
+    _entity_id, _draft.primary_color, _draft.secondary_color, _draft.background_color, _draft.logo_url,
+    _draft.font, _draft.button_style, _draft.card_style
+  )
+  ON CONFLICT (entity_id) DO UPDATE SET
+    primary_color = EXCLUDED.primary_color,
+    secondary_color = EXCLUDED.secondary_color,
+    background_color = EXCLUDED.background_color,
+    logo_url = EXCLUDED.logo_url,
+    font = EXCLUDED.font,
+    button_style = EXCLUDED.button_style,
+    card_style = EXCLUDED.card_style;
+
+  RETURN _version;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.publish_skin_draft(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.publish_skin_draft(UUID) TO authenticated;
+
+-- Entity files (item images, logos) are stored under the entity's id, and
+-- its admins manage them. Replaces the item-image-only check.
+CREATE OR REPLACE FUNCTION public.can_manage_entity_file(_object_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN public.is_entity_admin(((storage.foldername(_object_name))[1])::UUID);
+EXCEPTION
+  WHEN invalid_text_representation THEN
+    RETURN false;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_manage_entity_file(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.can_manage_entity_file(TEXT) TO authenticated;
+
+DROP POLICY IF EXISTS "Entity admins can upload topic item images" ON storage.objects;
+DROP POLICY IF EXISTS "Entity admins can delete topic item images" ON storage.objects;
+DROP FUNCTION IF EXISTS public.can_manage_item_image(TEXT);
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('entity-logos', 'entity-logos', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view entity logos" ON storage.objects FOR SELECT USING (
+  bucket_id = 'entity-logos'
+);
+
+CREATE POLICY "Entity admins can upload entity files" ON storage.objects FOR INSERT WITH CHECK (
+  bucket_id IN ('topic-item-images', 'entity-logos')
+  AND public.can_manage_entity_file(name)
+);
+
+CREATE POLICY "Entity admins can delete entity files" ON storage.objects FOR DELETE USING (
+  bucket_id IN ('topic-item-images', 'entity-logos')
+  AND public.can_manage_entity_file(name)
+);
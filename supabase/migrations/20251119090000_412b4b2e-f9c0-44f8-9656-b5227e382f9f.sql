@@ -0,0 +1,67 @@
+-- Skins can watermark cards with the entity's logo and choose the design on
+-- the back of reveal cards
+ALTER TABLE public.entity_skins
+  ADD COLUMN watermark BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN card_back TEXT NOT NULL DEFAULT 'question' CHECK (card_back IN ('question', 'logo', 'pattern'));
+
+ALTER TABLE public.entity_skin_versions
+  ADD COLUMN watermark BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN card_back TEXT NOT NULL DEFAULT 'question' CHECK (card_back IN ('question', 'logo', 'pattern'));
+
+-- Copies the new columns onto the live skin as well
+CREATE OR REPLACE FUNCTION public.publish_skin_draft(_entity_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _draft public.entity_skin_versions%ROWTYPE;
+  _version INTEGER;
+BEGIN
+  IF NOT public.is_entity_admin(_entity_id) THEN
+    RAISE EXCEPTION 'Only admins can publish the skin';
+  END IF;
+
+  SELECT * INTO _draft
+  FROM public.entity_skin_versions
+  WHERE entity_id = _entity_id
+  AND published_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'There is no draft to publish';
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO _version
+  FROM public.entity_skin_versions
+  WHERE entity_id = _entity_id;
+
+  UPDATE public.entity_skin_versions
+  SET version = _version, published_at = now()
+  WHERE id = _draft.id;
+
+  INSERT INTO public.entity_skins (
+    entity_id, primary_color, secondary_color, background_color, logo_url, font, button_style, card_style,
+    watermark, card_back
+  )
+  VALUES (
+    _entity_id, _draft.primary_color, _draft.secondary_color, _draft.background_color, _draft.logo_url,
+    _draft.font, _draft.button_style, _draft.card_style, _draft.watermark, _draft.card_back
+  )
+  ON CONFLICT (entity_id) DO UPDATE SET
+    primary_color = EXCLUDED.primary_color,
+    secondary_color = EXCLUDED.secondary_color,
+    background_color = EXCLUDED.background_color,
+    logo_url = EXCLUDED.logo_url,
+    font = EXCLUDED.font,
+    button_style = EXCLUDED.button_style,
+    card_style = EXCLUDED.card_style,
+    watermark = EXCLUDED.watermark,
+    card_back = EXCLUDED.card_back;
+
+  RETURN _version;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.publish_skin_draft(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.publish_skin_draft(UUID) TO authenticated;
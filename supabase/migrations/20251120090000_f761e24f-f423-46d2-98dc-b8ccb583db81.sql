@@ -0,0 +1,84 @@
+-- score_round() stays available for callers that scored rounds through the
+-- database before the strategies moved to the score-round edge function.
+-- It scores games on the default exact-position strategy with the same rules
+-- as src/lib/scoring and applies them through apply_round_scores(); other
+-- strategies only exist in TypeScript, so those rounds must use score-round.
+CREATE OR REPLACE FUNCTION public.score_round(_round_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _round public.rounds%ROWTYPE;
+  _game public.games%ROWTYPE;
+  _ranked INTEGER;
+  _max_points INTEGER;
+  _scores JSONB;
+  _vip_reward INTEGER;
+BEGIN
+  SELECT * INTO _round FROM public.rounds WHERE id = _round_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  SELECT * INTO _game FROM public.games WHERE id = _round.game_id;
+
+  IF _game.scoring_strategy <> 'exact' THEN
+    RAISE EXCEPTION 'Rounds scored with the % strategy must go through the score-round function', _game.scoring_strategy;
+  END IF;
+
+  SELECT COUNT(*) INTO _ranked FROM public.rankings WHERE round_id = _round_id;
+
+  -- Same rule as score-round: the VIP at any point, any player once every
+  -- item has been revealed
+  IF _round.vip_id <> auth.uid() AND (
+    NOT EXISTS (
+      SELECT 1 FROM public.game_players
+      WHERE game_id = _round.game_id
+      AND user_id = auth.uid()
+    )
+    OR _round.reveal_index < _ranked
+  ) THEN
+    RAISE EXCEPTION 'Only the VIP can score a round';
+  END IF;
+
+  _max_points := _ranked * _game.points_per_correct;
+
+  WITH players AS (
+    SELECT
+      g.user_id,
+      COUNT(*) FILTER (WHERE r.position = g.position) * _game.points_per_correct AS base_points
+    FROM public.guesses g
+    LEFT JOIN public.rankings r ON r.round_id = g.round_id AND r.item_id = g.item_id
+    WHERE g.round_id = _round_id
+    AND g.user_id <> _round.vip_id
+    GROUP BY g.user_id
+  )
+  SELECT
+    jsonb_agg(jsonb_build_object(
+      'user_id', user_id,
+      'base_points', base_points,
+      'bonus', CASE WHEN _max_points > 0 AND base_points >= _max_points THEN _game.bonus_all_correct ELSE 0 END,
+      'penalty', CASE WHEN _max_points > 0 AND base_points <= 0 THEN _game.penalty_all_wrong ELSE 0 END
+    )),
+    ROUND(_game.vip_predictability_bonus * AVG(
+      CASE WHEN _max_points > 0 THEN LEAST(1, GREATEST(0, base_points::NUMERIC / _max_points)) ELSE 0 END
+    ))
+  INTO _scores, _vip_reward
+  FROM players;
+
+  _scores := COALESCE(_scores, '[]'::JSONB);
+
+  IF _game.vip_predictability_bonus > 0 AND COALESCE(_vip_reward, 0) > 0 THEN
+    _scores := _scores || jsonb_build_array(jsonb_build_object(
+      'user_id', _round.vip_id, 'base_points', 0, 'bonus', _vip_reward, 'penalty', 0
+    ));
+  END IF;
+
+  PERFORM public.apply_round_scores(_round_id, _scores);
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.score_round(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.score_round(UUID) TO authenticated;
@@ -0,0 +1,84 @@
+-- rotate_vip() used to hand any unfinished round to the new VIP, including
+-- one being revealed. Scoring then skipped the new VIP's guesses and gave the
+-- old VIP no reward. A revealing round now keeps its VIP; the game's current
+-- VIP may advance the reveal instead.
+CREATE OR REPLACE FUNCTION public.rotate_vip(_game_id UUID, _from_vip_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _game public.games%ROWTYPE;
+  _round public.rounds%ROWTYPE;
+  _next_vip UUID;
+BEGIN
+  SELECT * INTO _game FROM public.games WHERE id = _game_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.game_players
+    WHERE game_id = _game_id
+    AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only players in this game can pass the VIP role';
+  END IF;
+
+  -- Someone else already moved it on
+  IF _game.current_vip_id IS DISTINCT FROM _from_vip_id THEN
+    RETURN _game.current_vip_id;
+  END IF;
+
+  IF auth.uid() NOT IN (_game.creator_id, _from_vip_id)
+    AND public.is_player_connected(_game_id, _from_vip_id) THEN
+    RAISE EXCEPTION 'Only the VIP or the host can pass the VIP role';
+  END IF;
+
+  _next_vip := public.next_vip_id(_game_id, _from_vip_id);
+
+  SELECT * INTO _round
+  FROM public.rounds
+  WHERE game_id = _game_id
+  ORDER BY round_number DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND AND _round.status = 'player_guessing' THEN
+    RAISE EXCEPTION 'The VIP cannot change while players are guessing';
+  END IF;
+
+  -- Only a round that has no ranking yet moves to the new VIP. Once the
+  -- reveal has started the ranking and guesses are saved against the old
+  -- VIP, so the round keeps them and the new VIP just drives the reveal.
+  IF FOUND AND _round.status IN ('topic_selection', 'vip_ranking') THEN
+    DELETE FROM public.ranking_drafts WHERE round_id = _round.id;
+    UPDATE public.rounds SET vip_id = _next_vip WHERE id = _round.id;
+  END IF;
+
+  UPDATE public.games SET current_vip_id = _next_vip WHERE id = _game_id;
+  RETURN _next_vip;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rotate_vip(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rotate_vip(UUID, UUID) TO authenticated;
+
+CREATE POLICY "Current VIP can advance a reveal" ON public.rounds FOR UPDATE USING (
+  status = 'revealing'
+  AND EXISTS (
+    SELECT 1 FROM public.games
+    WHERE games.id = rounds.game_id
+    AND games.current_vip_id = auth.uid()
+  )
+) WITH CHECK (
+  status IN ('revealing', 'complete')
+  AND vip_id <> auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.games
+    WHERE games.id = rounds.game_id
+    AND games.current_vip_id = auth.uid()
+  )
+);
@@ -0,0 +1,164 @@
+-- The live skin is written only by publish_skin_draft, so the contrast
+-- checks below can't be skipped by writing to entity_skins directly
+DROP POLICY IF EXISTS "Entity admins can manage skins" ON public.entity_skins;
+
+-- WCAG relative luminance of a '#rrggbb' color, 0 for black to 1 for white
+CREATE OR REPLACE FUNCTION public.skin_luminance(_hex TEXT)
+RETURNS DOUBLE PRECISION
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _weights DOUBLE PRECISION[] := ARRAY[0.2126, 0.7152, 0.0722];
+  _channel DOUBLE PRECISION;
+  _luminance DOUBLE PRECISION := 0;
+BEGIN
+  FOR _i IN 1..3 LOOP
+    _channel := ('x' || substr(_hex, 2 * _i, 2))::BIT(8)::INTEGER / 255.0;
+    _channel := CASE
+      WHEN _channel <= 0.03928 THEN _channel / 12.92
+      ELSE ((_channel + 0.055) / 1.055) ^ 2.4
+    END;
+    _luminance := _luminance + _weights[_i] * _channel;
+  END LOOP;
+
+  RETURN _luminance;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.skin_contrast(_a TEXT, _b TEXT)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (GREATEST(a, b) + 0.05) / (LEAST(a, b) + 0.05)
+  FROM (SELECT public.skin_luminance(_a) AS a, public.skin_luminance(_b) AS b) AS luminance;
+$$;
+
+-- Light or dark text on a color, as foregroundFor in src/lib/skin.ts
+CREATE OR REPLACE FUNCTION public.skin_foreground(_hex TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN public.skin_luminance(_hex) > 0.179 THEN '#0f172a' ELSE '#f8fafc' END;
+$$;
+
+-- _tint laid over _base at _alpha opacity
+CREATE OR REPLACE FUNCTION public.skin_blend(_base TEXT, _tint TEXT, _alpha DOUBLE PRECISION)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '#' || string_agg(lpad(to_hex(floor(base + (tint - base) * _alpha + 0.5)::INTEGER), 2, '0'), '' ORDER BY i)
+  FROM (
+    SELECT
+      i,
+      ('x' || substr(_base, 2 * i, 2))::BIT(8)::INTEGER AS base,
+      ('x' || substr(_tint, 2 * i, 2))::BIT(8)::INTEGER AS tint
+    FROM generate_series(1, 3) AS i
+  ) AS channels;
+$$;
+
+-- The pairings that fall below WCAG AA, mirroring src/lib/skinContrast.ts.
+-- An unset background is the app's own white page with near-black text.
+CREATE OR REPLACE FUNCTION public.skin_contrast_failures(_primary TEXT, _secondary TEXT, _background TEXT)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _page TEXT := COALESCE(_background, '#ffffff');
+  _text TEXT := CASE WHEN _background IS NULL THEN '#020817' ELSE public.skin_foreground(_background) END;
+  _failures TEXT[] := '{}';
+BEGIN
+  IF public.skin_contrast(public.skin_foreground(_primary), _primary) < 4.5 THEN
+    _failures := array_append(_failures, 'Button text on primary');
+  END IF;
+  IF public.skin_contrast(public.skin_foreground(_primary), _secondary) < 4.5 THEN
+    _failures := array_append(_failures, 'Button text where the gradient reaches secondary');
+  END IF;
+  IF public.skin_contrast(_text, _page) < 4.5 THEN
+    _failures := array_append(_failures, 'Text on cards and the page');
+  END IF;
+  IF public.skin_contrast(_primary, _page) < 3 THEN
+    _failures := array_append(_failures, 'Gradient headings, primary end');
+  END IF;
+  IF public.skin_contrast(_secondary, _page) < 3 THEN
+    _failures := array_append(_failures, 'Gradient headings, secondary end');
+  END IF;
+  IF public.skin_contrast(_text, public.skin_blend(_page, '#22c55e', 0.2)) < 4.5 THEN
+    _failures := array_append(_failures, 'Correct answers');
+  END IF;
+  IF public.skin_contrast(_text, public.skin_blend(_page, '#ef4444', 0.2)) < 4.5 THEN
+    _failures := array_append(_failures, 'Incorrect answers');
+  END IF;
+
+  RETURN _failures;
+END;
+$$;
+
+-- Refuses drafts that fail a contrast check, so the editor's check can't be
+-- bypassed by calling the function directly
+CREATE OR REPLACE FUNCTION public.publish_skin_draft(_entity_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _draft public.entity_skin_versions%ROWTYPE;
+  _version INTEGER;
+  _failures TEXT[];
+BEGIN
+  IF NOT public.is_entity_admin(_entity_id) THEN
+    RAISE EXCEPTION 'Only admins can publish the skin';
+  END IF;
+
+  SELECT * INTO _draft
+  FROM public.entity_skin_versions
+  WHERE entity_id = _entity_id
+  AND published_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'There is no draft to publish';
+  END IF;
+
+  _failures := public.skin_contrast_failures(_draft.primary_color, _draft.secondary_color, _draft.background_color);
+  IF cardinality(_failures) > 0 THEN
+    RAISE EXCEPTION 'Contrast too low: %', array_to_string(_failures, ', ');
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO _version
+  FROM public.entity_skin_versions
+  WHERE entity_id = _entity_id;
+
+  UPDATE public.entity_skin_versions
+  SET version = _version, published_at = now()
+  WHERE id = _draft.id;
+
+  INSERT INTO public.entity_skins (
+    entity_id, primary_color, secondary_color, background_color, logo_url, font, button_style, card_style,
+    watermark, card_back
+  )
+  VALUES (
+    _entity_id, _draft.primary_color, _draft.secondary_color, _draft.background_color, _draft.logo_url,
+    _draft.font, _draft.button_style, _draft.card_style, _draft.watermark, _draft.card_back
+  )
+  ON CONFLICT (entity_id) DO UPDATE SET
+    primary_color = EXCLUDED.primary_color,
+    secondary_color = EXCLUDED.secondary_color,
+    background_color = EXCLUDED.background_color,
+    logo_url = EXCLUDED.logo_url,
+    font = EXCLUDED.font,
+    button_style = EXCLUDED.button_style,
+    card_style = EXCLUDED.card_style,
+    watermark = EXCLUDED.watermark,
+    card_back = EXCLUDED.card_back;
+
+  RETURN _version;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.publish_skin_draft(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.publish_skin_draft(UUID) TO authenticated;
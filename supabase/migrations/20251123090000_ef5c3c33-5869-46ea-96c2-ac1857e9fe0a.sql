@@ -0,0 +1,85 @@
+-- Saves a topic and replaces its items with _items (in ranking order, each
+-- {id, name, emoji, description, image_url}) in one transaction, so a failed
+-- save never leaves a topic half written. Creates the topic when _topic_id is
+-- NULL; a NULL _entity_id makes it the caller's personal topic. Returns the
+-- topic id.
+CREATE OR REPLACE FUNCTION public.save_topic(
+  _name TEXT,
+  _tags TEXT[],
+  _items JSONB,
+  _category TEXT DEFAULT NULL,
+  _topic_id UUID DEFAULT NULL,
+  _entity_id UUID DEFAULT NULL,
+  _archived BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _topic public.topics%ROWTYPE;
+BEGIN
+  IF _topic_id IS NULL THEN
+    IF _entity_id IS NOT NULL AND NOT public.is_entity_admin(_entity_id) THEN
+      RAISE EXCEPTION 'Only space admins can add topics to the library';
+    END IF;
+
+    INSERT INTO public.topics (name, category, tags, entity_id, created_by, archived_at)
+    VALUES (_name, _category, _tags, _entity_id, auth.uid(), CASE WHEN _archived THEN now() END)
+    RETURNING id INTO _topic_id;
+  ELSE
+    SELECT * INTO _topic FROM public.topics WHERE id = _topic_id AND archived_at IS NULL FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Topic not found';
+    END IF;
+
+    IF _topic.created_by IS DISTINCT FROM auth.uid()
+      AND NOT (_topic.entity_id IS NOT NULL AND public.is_entity_admin(_topic.entity_id)) THEN
+      RAISE EXCEPTION 'Only the topic owner or a space admin can edit this topic';
+    END IF;
+
+    UPDATE public.topics
+    SET name = _name, category = _category, tags = _tags
+    WHERE id = _topic_id;
+  END IF;
+
+  -- Existing ids must be this topic's own items, not another topic's or a round's
+  IF EXISTS (
+    SELECT 1 FROM public.topic_items
+    WHERE id IN (SELECT (item->>'id')::UUID FROM jsonb_array_elements(_items) AS item)
+    AND (topic_id <> _topic_id OR round_id IS NOT NULL)
+  ) THEN
+    RAISE EXCEPTION 'Items can only be moved within their own topic';
+  END IF;
+
+  -- Items that have been played are refused by prevent_played_item_delete
+  DELETE FROM public.topic_items
+  WHERE topic_id = _topic_id
+  AND round_id IS NULL
+  AND id NOT IN (SELECT (item->>'id')::UUID FROM jsonb_array_elements(_items) AS item);
+
+  INSERT INTO public.topic_items (id, topic_id, name, emoji, description, image_url, position)
+  SELECT
+    (item->>'id')::UUID,
+    _topic_id,
+    item->>'name',
+    item->>'emoji',
+    item->>'description',
+    item->>'image_url',
+    ord
+  FROM jsonb_array_elements(_items) WITH ORDINALITY AS items(item, ord)
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    emoji = EXCLUDED.emoji,
+    description = EXCLUDED.description,
+    image_url = EXCLUDED.image_url,
+    position = EXCLUDED.position;
+
+  RETURN _topic_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_topic(TEXT, TEXT[], JSONB, TEXT, UUID, UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_topic(TEXT, TEXT[], JSONB, TEXT, UUID, UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,120 @@
+-- A completed round's scoreboard stays up until someone starts the next
+-- round. The VIP can now change during a reveal, so a VIP mismatch no longer
+-- says the scoreboard has been dismissed.
+ALTER TABLE public.rounds ADD COLUMN IF NOT EXISTS scoreboard_closed_at TIMESTAMPTZ;
+
+-- Rounds already moved past under the old rule
+UPDATE public.rounds r
+SET scoreboard_closed_at = now()
+FROM public.games g
+WHERE g.id = r.game_id
+AND r.status = 'complete'
+AND (g.current_vip_id IS DISTINCT FROM r.vip_id OR g.status = 'finished');
+
+-- Closes the scoreboard of a completed round and, unless the VIP role
+-- already moved on during the reveal, passes it to the next player. Returns
+-- the VIP for the next round.
+CREATE OR REPLACE FUNCTION public.start_next_round(_round_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _round public.rounds%ROWTYPE;
+  _game public.games%ROWTYPE;
+BEGIN
+  SELECT * INTO _round FROM public.rounds WHERE id = _round_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  SELECT * INTO _game FROM public.games WHERE id = _round.game_id FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.game_players
+    WHERE game_id = _round.game_id
+    AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only players in this game can start the next round';
+  END IF;
+
+  IF _round.status <> 'complete' THEN
+    RAISE EXCEPTION 'The round is not finished yet';
+  END IF;
+
+  -- Someone else already started it
+  IF _round.scoreboard_closed_at IS NOT NULL THEN
+    RETURN _game.current_vip_id;
+  END IF;
+
+  IF auth.uid() NOT IN (_game.creator_id, _game.current_vip_id)
+    AND public.is_player_connected(_game.id, _game.current_vip_id) THEN
+    RAISE EXCEPTION 'Only the VIP or the host can start the next round';
+  END IF;
+
+  IF _game.current_vip_id IS NOT DISTINCT FROM _round.vip_id THEN
+    _game.current_vip_id := public.next_vip_id(_game.id, _round.vip_id);
+    UPDATE public.games SET current_vip_id = _game.current_vip_id WHERE id = _game.id;
+  END IF;
+
+  UPDATE public.rounds SET scoreboard_closed_at = now() WHERE id = _round_id;
+  RETURN _game.current_vip_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_next_round(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.start_next_round(UUID) TO authenticated;
+
+-- The game's current VIP may only step a reveal forward, not edit the round
+DROP POLICY IF EXISTS "Current VIP can advance a reveal" ON public.rounds;
+
+-- Shows the next item of a reveal, for the round's VIP or, once the role has
+-- moved on, the game's current VIP. Fails if the reveal has moved past
+-- _from_index, so two clicks only advance once. Returns the new index.
+CREATE OR REPLACE FUNCTION public.advance_reveal(_round_id UUID, _from_index INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _round public.rounds%ROWTYPE;
+  _total INTEGER;
+BEGIN
+  SELECT * INTO _round FROM public.rounds WHERE id = _round_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM _round.vip_id AND NOT EXISTS (
+    SELECT 1 FROM public.games
+    WHERE id = _round.game_id
+    AND current_vip_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the VIP can advance the reveal';
+  END IF;
+
+  IF _round.status <> 'revealing' THEN
+    RAISE EXCEPTION 'Cannot reveal next while round is %', _round.status;
+  END IF;
+
+  IF _round.reveal_index <> _from_index THEN
+    RAISE EXCEPTION 'Round changed while updating, please retry';
+  END IF;
+
+  SELECT COUNT(*) INTO _total FROM public.rankings WHERE round_id = _round_id;
+
+  IF _round.reveal_index >= _total THEN
+    RAISE EXCEPTION 'Every item has been revealed';
+  END IF;
+
+  UPDATE public.rounds SET reveal_index = reveal_index + 1 WHERE id = _round_id;
+  RETURN _round.reveal_index + 1;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.advance_reveal(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.advance_reveal(UUID, INTEGER) TO authenticated;
@@ -0,0 +1,5 @@
+-- The default colors now pass publish_skin_draft's contrast checks; they
+-- match defaultSkin in src/lib/skin.ts
+ALTER TABLE public.entity_skins
+  ALTER COLUMN primary_color SET DEFAULT '#9c38ff',
+  ALTER COLUMN secondary_color SET DEFAULT '#007b94';
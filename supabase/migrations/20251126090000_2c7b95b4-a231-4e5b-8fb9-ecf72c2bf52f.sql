@@ -0,0 +1,93 @@
+-- save_topic runs as the caller, so the topics and topic_items policies
+-- decide who may write, and it checks the same rules as validateTopic in
+-- src/lib/topics.ts so a direct call can't save a topic the editor would
+-- refuse. Emoji and description lengths are enforced by their columns.
+CREATE OR REPLACE FUNCTION public.save_topic(
+  _name TEXT,
+  _tags TEXT[],
+  _items JSONB,
+  _category TEXT DEFAULT NULL,
+  _topic_id UUID DEFAULT NULL,
+  _entity_id UUID DEFAULT NULL,
+  _archived BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _names TEXT[];
+BEGIN
+  IF btrim(COALESCE(_name, '')) = '' THEN
+    RAISE EXCEPTION 'Give the topic a title';
+  END IF;
+
+  SELECT array_agg(btrim(COALESCE(item->>'name', '')) ORDER BY ord) INTO _names
+  FROM jsonb_array_elements(_items) WITH ORDINALITY AS items(item, ord);
+
+  -- Mirrors TOPIC_ITEM_COUNT in src/lib/topics.ts
+  IF COALESCE(array_length(_names, 1), 0) <> 10 THEN
+    RAISE EXCEPTION 'A topic needs exactly 10 items (it has %)', COALESCE(array_length(_names, 1), 0);
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(_names) AS n WHERE n = '') THEN
+    RAISE EXCEPTION 'Items cannot be blank';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT lower(regexp_replace(n, '\s+', ' ', 'g'))) FROM unnest(_names) AS n) <> 10 THEN
+    RAISE EXCEPTION 'Items must be unique';
+  END IF;
+
+  IF _topic_id IS NULL THEN
+    INSERT INTO public.topics (name, category, tags, entity_id, created_by, archived_at)
+    VALUES (btrim(_name), _category, _tags, _entity_id, auth.uid(), CASE WHEN _archived THEN now() END)
+    RETURNING id INTO _topic_id;
+  ELSE
+    -- Row-level security hides topics the caller may not edit
+    UPDATE public.topics
+    SET name = btrim(_name), category = _category, tags = _tags
+    WHERE id = _topic_id
+    AND archived_at IS NULL
+    RETURNING id INTO _topic_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Topic not found';
+    END IF;
+  END IF;
+
+  -- Existing ids must be this topic's own items, not another topic's or a round's
+  IF EXISTS (
+    SELECT 1 FROM public.topic_items
+    WHERE id IN (SELECT (item->>'id')::UUID FROM jsonb_array_elements(_items) AS item)
+    AND (topic_id <> _topic_id OR round_id IS NOT NULL)
+  ) THEN
+    RAISE EXCEPTION 'Items can only be moved within their own topic';
+  END IF;
+
+  -- Items that have been played are refused by prevent_played_item_delete
+  DELETE FROM public.topic_items
+  WHERE topic_id = _topic_id
+  AND round_id IS NULL
+  AND id NOT IN (SELECT (item->>'id')::UUID FROM jsonb_array_elements(_items) AS item);
+
+  INSERT INTO public.topic_items (id, topic_id, name, emoji, description, image_url, position)
+  SELECT
+    (item->>'id')::UUID,
+    _topic_id,
+    btrim(item->>'name'),
+    item->>'emoji',
+    item->>'description',
+    item->>'image_url',
+    ord
+  FROM jsonb_array_elements(_items) WITH ORDINALITY AS items(item, ord)
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    emoji = EXCLUDED.emoji,
+    description = EXCLUDED.description,
+    image_url = EXCLUDED.image_url,
+    position = EXCLUDED.position;
+
+  RETURN _topic_id;
+END;
+$$;